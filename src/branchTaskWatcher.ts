@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { getGitApi, GitRepository } from './gitApi';
+import { DEFAULT_BRANCH_TASK_ID_PATTERN, parseTaskIdFromBranch } from './taskReference';
+
+export interface ActiveTaskChange {
+    taskId: string | undefined;
+    previousTaskId: string | undefined;
+    // True when caused by switching branches, false for the initial detection
+    checkout: boolean;
+}
+
+interface WatchedRepository {
+    headName: string | undefined;
+    subscription: vscode.Disposable;
+}
+
+/**
+ * Follows HEAD of the open git repositories and works out the active task from the branch name
+ * (see clickupTasks.branchTaskIdPattern). The branch that was checked out last wins
+ */
+export class BranchTaskWatcher implements vscode.Disposable {
+    private _onDidChangeActiveTask: vscode.EventEmitter<ActiveTaskChange> = new vscode.EventEmitter<ActiveTaskChange>();
+    readonly onDidChangeActiveTask: vscode.Event<ActiveTaskChange> = this._onDidChangeActiveTask.event;
+
+    private repositories: Map<GitRepository, WatchedRepository> = new Map();
+    private activeTaskId: string | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Start watching; does nothing if git isn't available
+     */
+    async start(): Promise<void> {
+        const git = await getGitApi();
+        if (!git) {
+            return;
+        }
+
+        git.repositories.forEach(repository => this.watch(repository));
+        this.disposables.push(
+            git.onDidOpenRepository(repository => this.watch(repository)),
+            git.onDidCloseRepository(repository => {
+                this.repositories.get(repository)?.subscription.dispose();
+                this.repositories.delete(repository);
+            })
+        );
+    }
+
+    getActiveTaskId(): string | undefined {
+        return this.activeTaskId;
+    }
+
+    /**
+     * Re-read the current branches, e.g. after the pattern setting changed
+     */
+    redetect(): void {
+        this.setActiveTaskId(this.findActiveTaskId(), false);
+    }
+
+    dispose(): void {
+        this.repositories.forEach(watched => watched.subscription.dispose());
+        this.repositories.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this._onDidChangeActiveTask.dispose();
+    }
+
+    private watch(repository: GitRepository): void {
+        if (this.repositories.has(repository)) {
+            return;
+        }
+
+        this.repositories.set(repository, {
+            headName: repository.state.HEAD?.name,
+            // Fires for any change in the repository (index, working tree, ...), so compare HEAD
+            subscription: repository.state.onDidChange(() => this.onRepositoryChanged(repository))
+        });
+
+        if (!this.activeTaskId) {
+            this.setActiveTaskId(this.findActiveTaskId(), false);
+        }
+    }
+
+    private onRepositoryChanged(repository: GitRepository): void {
+        const watched = this.repositories.get(repository);
+        const headName = repository.state.HEAD?.name;
+        if (!watched || watched.headName === headName) {
+            return;
+        }
+
+        // HEAD is usually not loaded yet when the repository opens, so the first branch name is
+        // the initial detection rather than a checkout
+        const checkout = watched.headName !== undefined;
+        watched.headName = headName;
+        this.setActiveTaskId(parseTaskIdFromBranch(headName, this.getPattern()), checkout);
+    }
+
+    /**
+     * The task of the first repository whose branch names one
+     */
+    private findActiveTaskId(): string | undefined {
+        const pattern = this.getPattern();
+        for (const watched of this.repositories.values()) {
+            const taskId = parseTaskIdFromBranch(watched.headName, pattern);
+            if (taskId) {
+                return taskId;
+            }
+        }
+        return undefined;
+    }
+
+    private setActiveTaskId(taskId: string | undefined, checkout: boolean): void {
+        if (taskId === this.activeTaskId) {
+            return;
+        }
+
+        const previousTaskId = this.activeTaskId;
+        this.activeTaskId = taskId;
+        this._onDidChangeActiveTask.fire({ taskId, previousTaskId, checkout });
+    }
+
+    private getPattern(): string {
+        return vscode.workspace.getConfiguration('clickupTasks').get<string>('branchTaskIdPattern', DEFAULT_BRANCH_TASK_ID_PATTERN);
+    }
+}
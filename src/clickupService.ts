@@ -1,5 +1,6 @@
 import axios, { AxiosInstance } from 'axios';
 import * as vscode from 'vscode';
+import { RequestScheduler } from './requestScheduler';
 
 export interface ClickUpTask {
     id: string;
@@ -20,6 +21,8 @@ export interface ClickUpTask {
         user_id?: string | number;
     }>;
     due_date?: string;
+    date_updated?: string; // Unix timestamp (milliseconds) as a string
+    parent?: string | null; // Parent task ID for subtasks
     priority?: {
         priority: string;
         color: string;
@@ -32,20 +35,362 @@ export interface ClickUpTask {
         id: string;
         name: string;
     };
+    checklists?: ClickUpChecklist[];
     timeTracked?: number; // Total time tracked in milliseconds
     time_estimate?: number; // Time estimate in milliseconds
     isCurrentlyTracked?: boolean; // Whether this task is currently being time-tracked
 }
 
+export interface ClickUpChecklist {
+    id: string;
+    name: string;
+    items: Array<{
+        id: string;
+        name: string;
+        resolved: boolean;
+        orderindex?: number;
+    }>;
+}
+
+export interface ClickUpStatus {
+    status: string;
+    color: string;
+    type?: string;
+    orderindex?: number;
+}
+
+export interface ClickUpSpace {
+    id: string;
+    name: string;
+    statuses: ClickUpStatus[];
+}
+
+export interface ClickUpMember {
+    id: string;
+    username: string;
+    email?: string;
+}
+
+/**
+ * Fields for a new task; only name is required
+ */
+export interface NewTaskParams {
+    name: string;
+    description?: string; // Markdown
+    priority?: number; // 1 = urgent, 2 = high, 3 = normal, 4 = low
+    timeEstimate?: number; // Milliseconds
+    assigneeIds?: string[];
+    status?: string;
+}
+
+/**
+ * The running ClickUp timer
+ */
+export interface CurrentTimeEntry {
+    taskId: string;
+    start: number; // Unix timestamp (milliseconds), as recorded by ClickUp; 0 if the API didn't say
+}
+
+/**
+ * A time entry of the current user
+ */
+export interface ClickUpTimeEntry {
+    id: string;
+    taskId: string | undefined;
+    start: number; // Unix timestamp (milliseconds)
+    end: number | undefined; // Unix timestamp (milliseconds), undefined while the timer runs
+    duration: number; // Milliseconds; for a running entry, up to now
+    description: string;
+    tags: string[];
+    billable: boolean;
+    taskName?: string;
+    list?: {
+        id: string;
+        name: string;
+    };
+    space?: {
+        id: string;
+        name: string;
+    };
+}
+
+/**
+ * Everything about a task that the details panel shows, on top of the fields in ClickUpTask
+ */
+export interface ClickUpTaskDetails extends ClickUpTask {
+    description: string; // Markdown when ClickUp provides it, plain text otherwise
+    date_created?: string; // Unix timestamp (milliseconds) as a string
+    date_closed?: string | null;
+    start_date?: string | null;
+    creator?: {
+        id: string | number;
+        username: string;
+    };
+    tags: Array<{
+        name: string;
+        tag_fg?: string;
+        tag_bg?: string;
+    }>;
+    custom_fields: Array<{
+        id: string;
+        name: string;
+        type: string;
+        value?: any;
+        type_config?: any;
+    }>;
+    checklists: ClickUpChecklist[];
+    dependencies: Array<{
+        task_id: string;
+        depends_on: string;
+    }>;
+    linked_tasks: Array<{
+        task_id: string;
+        link_id: string;
+    }>;
+}
+
+/**
+ * A comment on a task, newest first when listed
+ */
+export interface ClickUpComment {
+    id: string;
+    text: string;
+    user: {
+        id: string | number;
+        username: string;
+    };
+    date: number; // Unix timestamp (milliseconds)
+    replyCount: number;
+}
+
+/**
+ * Fields for a manually added time entry
+ */
+export interface NewTimeEntryParams {
+    start: number; // Unix timestamp (milliseconds)
+    duration: number; // Milliseconds
+    description?: string;
+    billable?: boolean;
+    tags?: string[];
+}
+
+/**
+ * Changes to an existing time entry; omitted fields stay as they are
+ */
+export interface TimeEntryChanges {
+    start?: number; // Unix timestamp (milliseconds)
+    end?: number; // Unix timestamp (milliseconds)
+    description?: string;
+}
+
+/**
+ * Team, user and status definitions, resolved once and shared by every service method
+ * Invalidated when the API token or the teamId setting changes
+ */
+export interface ClickUpSession {
+    teamId: string;
+    userId: string;
+    spaces: ClickUpSpace[];
+}
+
+/**
+ * A list found while walking a team's space/folder/list hierarchy
+ */
+export interface ClickUpListRef {
+    id: string;
+    name: string;
+    space: {
+        id: string;
+        name: string;
+    };
+    folder?: {
+        id: string;
+        name: string;
+    };
+}
+
+/**
+ * Result of getInProgressTasks
+ */
+export interface InProgressTasksResult {
+    tasks: ClickUpTask[];
+    // Parts of the workspace that failed to load; non-empty means `tasks` is partial
+    failures: string[];
+}
+
+/**
+ * Result of getInProgressTaskChanges
+ */
+export interface TaskChangesResult {
+    // Tasks updated since the last sync that are in progress and assigned to the current user
+    changed: ClickUpTask[];
+    // Tasks updated since the last sync that no longer are (status changed or unassigned)
+    removedTaskIds: string[];
+    currentlyTrackedTaskId: string | null;
+}
+
+// ClickUp returns at most 100 tasks per page
+const TASK_PAGE_SIZE = 100;
+// Safety limit to prevent infinite pagination loops
+const MAX_TASK_PAGES = 100;
+// Incremental syncs re-request this much time before the last sync, to allow for clock skew
+const SYNC_OVERLAP = 60 * 1000;
+// Do a full fetch at least this often; deleted tasks never show up in a date_updated query
+const FULL_SYNC_INTERVAL = 60 * 60 * 1000;
+// globalState key of the running timer, so the elapsed time survives reloads
+const RUNNING_TIMER_KEY = 'clickupTasks.runningTimer';
+
+/**
+ * Serialize query params the way ClickUp expects arrays: `assignees[]=1&assignees[]=2`
+ */
+function serializeParams(params: Record<string, any>): string {
+    const searchParams = new URLSearchParams();
+    Object.keys(params).forEach(key => {
+        const value = params[key];
+        if (Array.isArray(value)) {
+            value.forEach(v => searchParams.append(`${key}[]`, String(v)));
+        } else if (value !== undefined) {
+            searchParams.append(key, String(value));
+        }
+    });
+    return searchParams.toString();
+}
+
+/**
+ * Check whether a task is assigned to the given user
+ * Handles the different assignee object structures returned by the API
+ */
+function isAssignedTo(task: any, userId: string): boolean {
+    const assigneeIds = (task.assignees || []).map((assignee: any) => {
+        // API might return assignee.id as number or string, or assignee.user.id
+        return String(assignee.id || assignee.user?.id || assignee.user_id || '');
+    });
+    return assigneeIds.includes(userId);
+}
+
+/**
+ * Check whether a task is assigned to the user and has one of the in-progress statuses
+ * @param statuses Lowercased in-progress status names
+ */
+function isInProgressFor(task: ClickUpTask, userId: string, statuses: string[]): boolean {
+    if (!isAssignedTo(task, userId)) {
+        return false;
+    }
+
+    // Check if status matches any of the configured in-progress statuses (case-insensitive)
+    // Handle different status object structures
+    const statusValue = task.status?.status || task.status || '';
+    const status = String(statusValue).toLowerCase().trim();
+    return statuses.includes(status);
+}
+
+/**
+ * Convert a raw task from the API into a ClickUpTask
+ * @param task Raw task object
+ * @param space Space info to attach (list endpoints don't include it)
+ */
+function toClickUpTask(task: any, space?: { id: string; name: string }): ClickUpTask {
+    // Extract time_spent from task object (in milliseconds according to ClickUp API)
+    // Handle both number and string formats
+    let timeTracked = 0;
+    if (task.time_spent !== undefined && task.time_spent !== null) {
+        timeTracked = typeof task.time_spent === 'string' 
+            ? parseInt(task.time_spent, 10) || 0
+            : Number(task.time_spent) || 0;
+    }
+
+    return {
+        ...task,
+        space,
+        timeTracked
+    };
+}
+
+/**
+ * Convert a time entry from the API
+ */
+function toClickUpTimeEntry(entry: any): ClickUpTimeEntry {
+    const start = Number(entry.start) || 0;
+    const end = Number(entry.end) || undefined;
+    // Running entries have a negative duration (minus the start time)
+    const duration = Number(entry.duration);
+    return {
+        id: String(entry.id),
+        taskId: entry.task?.id ? String(entry.task.id) : undefined,
+        start,
+        end,
+        duration: duration > 0 ? duration : Date.now() - start,
+        description: entry.description || '',
+        tags: (entry.tags || []).map((tag: any) => tag.name),
+        billable: !!entry.billable,
+        taskName: entry.task?.name,
+        // Only set when the entries were requested with include_location_names
+        list: entry.task_location?.list_id
+            ? { id: String(entry.task_location.list_id), name: entry.task_location.list_name || '' }
+            : undefined,
+        space: entry.task_location?.space_id
+            ? { id: String(entry.task_location.space_id), name: entry.task_location.space_name || '' }
+            : undefined
+    };
+}
+
+/**
+ * Convert a comment or reply from the API
+ */
+function toClickUpComment(comment: any): ClickUpComment {
+    return {
+        id: String(comment.id),
+        text: comment.comment_text || '',
+        user: {
+            id: comment.user?.id,
+            username: comment.user?.username || comment.user?.email || 'Unknown user'
+        },
+        date: Number(comment.date) || 0,
+        replyCount: Number(comment.reply_count) || 0
+    };
+}
+
+/**
+ * Read a time entry from the API (current or just started)
+ * @returns The task and start time, or null if there is no running entry
+ */
+function toCurrentTimeEntry(timeEntry: any): CurrentTimeEntry | null {
+    // Check various possible structures for task ID
+    const taskId = timeEntry?.task?.id || timeEntry?.task_id || timeEntry?.taskId;
+    if (!taskId) {
+        return null;
+    }
+    const start = Number(timeEntry.start);
+    return { taskId: String(taskId), start: start > 0 ? start : 0 };
+}
+
 export class ClickUpService {
     private apiClient: AxiosInstance | null = null;
-    private currentUserId: string | null = null;
+    // Resolved team/user/spaces; a promise so concurrent callers share one resolution
+    private session: Promise<ClickUpSession> | null = null;
+    // Token the current apiClient was created with; the client is only rebuilt when it changes
+    private apiToken: string | undefined;
     private outputChannel: vscode.OutputChannel | undefined;
     // Internal timer tracking: stores taskId -> start timestamp (milliseconds)
+    // Start times come from ClickUp's time entry whenever known, so elapsed time matches what ClickUp records
     private internalTimerStartTimes: Map<string, number> = new Map();
-
-    constructor(outputChannel?: vscode.OutputChannel) {
+    private storage: vscode.Memento | undefined;
+    // Every API request goes through this (concurrency limit, rate limit handling, retries)
+    private scheduler: RequestScheduler;
+    // Start time of the last successful sync (full or incremental), used for date_updated_gt
+    private lastSyncTime: number | undefined;
+    private lastFullSyncTime: number | undefined;
+
+    constructor(outputChannel?: vscode.OutputChannel, storage?: vscode.Memento) {
         this.outputChannel = outputChannel;
+        this.storage = storage;
+        this.scheduler = new RequestScheduler(4, message => this.log(message));
+
+        // Restore the timer of the previous session; the next sync reconciles it with ClickUp
+        const runningTimer = storage?.get<CurrentTimeEntry>(RUNNING_TIMER_KEY);
+        if (runningTimer?.taskId && runningTimer.start) {
+            this.internalTimerStartTimes.set(runningTimer.taskId, runningTimer.start);
+        }
     }
 
     private log(message: string) {
@@ -69,7 +414,10 @@ export class ClickUpService {
             return null;
         }
 
-        if (!this.apiClient || this.apiClient.defaults.headers.common['Authorization'] !== apiToken) {
+        this.scheduler.setMaxConcurrent(config.get<number>('maxConcurrentRequests', 4));
+
+        if (!this.apiClient || this.apiToken !== apiToken) {
+            this.apiToken = apiToken;
             this.apiClient = axios.create({
                 baseURL: 'https://api.clickup.com/api/v2',
                 headers: {
@@ -77,29 +425,182 @@ export class ClickUpService {
                     'Content-Type': 'application/json'
                 }
             });
-            // Reset user ID when API client changes
-            this.currentUserId = null;
+            this.scheduler.attach(this.apiClient);
+            // Another token can mean another user or team, so nothing resolved so far applies
+            this.invalidateSession();
         }
 
         return this.apiClient;
     }
 
-    private async getCurrentUserId(client: AxiosInstance): Promise<string> {
-        if (this.currentUserId) {
-            return this.currentUserId;
+    /**
+     * Drop the resolved team/user/status definitions and sync state
+     * Called when the API token or teamId setting changes
+     */
+    invalidateSession(): void {
+        this.session = null;
+        this.resetSyncState();
+    }
+
+    /**
+     * Get the shared session, resolving it on first use
+     * A failed resolution is not cached, so the next call tries again
+     */
+    private getSession(client: AxiosInstance): Promise<ClickUpSession> {
+        if (!this.session) {
+            const session = this.resolveSession(client);
+            this.session = session;
+            session.catch(() => {
+                if (this.session === session) {
+                    this.session = null;
+                }
+            });
+        }
+        return this.session;
+    }
+
+    private async resolveSession(client: AxiosInstance): Promise<ClickUpSession> {
+        const [teamId, userId] = await Promise.all([
+            this.getTargetTeamId(client),
+            this.getCurrentUserId(client)
+        ]);
+
+        // Status definitions are only informational, so don't fail the session over them
+        let spaces: ClickUpSpace[] = [];
+        try {
+            spaces = await this.getSpaces(client, teamId);
+        } catch (error: any) {
+            this.log(`Warning: Could not load spaces: ${error.message}`);
+        }
+
+        this.log(`Resolved session: team ${teamId}, user ${userId}, ${spaces.length} spaces`);
+        return { teamId, userId, spaces };
+    }
+
+    private async getTargetTeamId(client: AxiosInstance): Promise<string> {
+        const teamsResponse = await client.get('/team');
+        const teams = teamsResponse.data.teams;
+        
+        if (!teams || teams.length === 0) {
+            throw new Error('No teams found in your ClickUp account');
         }
 
+        const config = vscode.workspace.getConfiguration('clickupTasks');
+        const teamId = config.get<string>('teamId', '');
+        return teamId || String(teams[0].id);
+    }
+
+    private async getCurrentUserId(client: AxiosInstance): Promise<string> {
         try {
             const response = await client.get('/user');
             const userId = response.data.user.id;
             // Ensure userId is always a string for consistent comparison
-            this.currentUserId = String(userId);
-            return this.currentUserId;
+            return String(userId);
         } catch (error: any) {
             throw new Error(`Failed to get current user: ${error.response?.data?.err || error.message}`);
         }
     }
 
+    /**
+     * Walk every space, folder and folderless list of a team
+     * Spaces are loaded in parallel (bounded by the request scheduler). Errors inside a
+     * single space are logged, recorded in `failures` and that space is skipped
+     * @param failures Optional array that receives a description of each space that failed
+     * @returns Every list found, with the space and folder it belongs to
+     */
+    private async getAllLists(client: AxiosInstance, teamId: string, failures?: string[]): Promise<ClickUpListRef[]> {
+        // Always reload spaces here: a crawl should see spaces created since the session was resolved
+        const spaces = await this.getSpaces(client, teamId);
+
+        const listsPerSpace = await Promise.all(spaces.map(async space => {
+            try {
+                return await this.getListsInSpace(client, space);
+            } catch (error: any) {
+                this.log(`Error inspecting space ${space.id}: ${error.message}`);
+                failures?.push(`Space "${space.name}": ${error.response?.data?.err || error.message}`);
+                return [];
+            }
+        }));
+
+        return listsPerSpace.flat();
+    }
+
+    private async getSpaces(client: AxiosInstance, teamId: string): Promise<ClickUpSpace[]> {
+        const response = await client.get(`/team/${teamId}/space`);
+        return (response.data.spaces || []).map((space: any) => ({
+            id: String(space.id),
+            name: space.name,
+            statuses: space.statuses || []
+        }));
+    }
+
+    private async getListsInSpace(client: AxiosInstance, space: { id: string; name: string }): Promise<ClickUpListRef[]> {
+        const [foldersResponse, spaceListsResponse] = await Promise.all([
+            client.get(`/space/${space.id}/folder`),
+            client.get(`/space/${space.id}/list`)
+        ]);
+
+        // Lists inside folders
+        const folderLists = await Promise.all((foldersResponse.data.folders || []).map(async (folder: any) => {
+            const listsResponse = await client.get(`/folder/${folder.id}/list`);
+            return (listsResponse.data.lists || []).map((list: any): ClickUpListRef => ({
+                id: list.id,
+                name: list.name,
+                space,
+                folder: { id: folder.id, name: folder.name }
+            }));
+        }));
+
+        // Lists directly in space (not in folders)
+        const spaceLists = (spaceListsResponse.data.lists || []).map((list: any): ClickUpListRef => ({
+            id: list.id,
+            name: list.name,
+            space
+        }));
+
+        return [...folderLists.flat(), ...spaceLists];
+    }
+
+    /**
+     * Fetch every page of a paginated task endpoint (/list/{id}/task or /team/{id}/task)
+     * @param client The API client
+     * @param url The endpoint path
+     * @param params Query params; `page` is added for each request
+     * @returns Raw tasks from all pages
+     */
+    private async fetchAllTaskPages(client: AxiosInstance, url: string, params: Record<string, any>): Promise<any[]> {
+        const allTasks: any[] = [];
+        let page = 0;
+
+        while (true) {
+            const response = await client.get(url, {
+                params: { ...params, page },
+                paramsSerializer: serializeParams
+            });
+
+            const tasks = response.data.tasks || [];
+            allTasks.push(...tasks);
+
+            // Newer responses carry last_page; otherwise a short page means we're done
+            const isLastPage = typeof response.data.last_page === 'boolean'
+                ? response.data.last_page
+                : tasks.length < TASK_PAGE_SIZE;
+            if (isLastPage || tasks.length === 0) {
+                break;
+            }
+
+            page++;
+
+            // Safety limit to prevent infinite loops
+            if (page >= MAX_TASK_PAGES) {
+                this.log(`WARNING: Reached pagination limit for ${url}`);
+                break;
+            }
+        }
+
+        return allTasks;
+    }
+
     async debugListAllMyTasks(): Promise<void> {
         const client = this.getApiClient();
         if (!client) {
@@ -107,187 +608,63 @@ export class ClickUpService {
         }
 
         try {
-            // Get current user ID
-            const currentUserId = await this.getCurrentUserId(client);
+            const { userId: currentUserId, teamId: targetTeamId } = await this.getSession(client);
             this.log(`\n=== DEBUG: Listing ALL tasks where you are in assignees list ===`);
             this.log(`Current user ID: ${currentUserId}`);
-
-            // Get teams
-            const teamsResponse = await client.get('/team');
-            const teams = teamsResponse.data.teams;
-            const targetTeamId = teams[0].id;
             this.log(`Using team: ${targetTeamId}`);
 
-            // Try team-level filtered tasks endpoint first (more efficient)
+            // Try team-level filtered tasks endpoint first (this is what getInProgressTasks uses)
             this.log(`\nTrying team-level filtered tasks endpoint...`);
             try {
-                const teamTasksResponse = await client.get(`/team/${targetTeamId}/task`, {
-                    params: {
-                        assignees: [currentUserId],
-                        include_closed: false,
-                        subtasks: false,
-                        page: 0
-                    },
-                    paramsSerializer: (params: any) => {
-                        const searchParams = new URLSearchParams();
-                        Object.keys(params).forEach(key => {
-                            const value = params[key];
-                            if (Array.isArray(value)) {
-                                value.forEach(v => searchParams.append(`${key}[]`, String(v)));
-                            } else {
-                                searchParams.append(key, String(value));
-                            }
-                        });
-                        return searchParams.toString();
-                    }
+                const teamTasks = await this.fetchAllTaskPages(client, `/team/${targetTeamId}/task`, {
+                    assignees: [currentUserId],
+                    include_closed: false,
+                    subtasks: false
                 });
-                
-                const teamTasks = teamTasksResponse.data.tasks || [];
-                this.log(`Team-level endpoint returned ${teamTasks.length} tasks (page 0)`);
-                
-                // If this works, we could use it, but let's continue with list-by-list for completeness
+                this.log(`Team-level endpoint returned ${teamTasks.length} tasks`);
             } catch (err: any) {
                 this.log(`Team-level endpoint not available or error: ${err.message}`);
             }
 
-            // Get spaces
-            const spacesResponse = await client.get(`/team/${targetTeamId}/space`);
-            const spaces = spacesResponse.data.spaces || [];
-            this.log(`Found ${spaces.length} spaces\n`);
+            // Crawl every list as well, for comparison
+            const lists = await this.getAllLists(client, targetTeamId);
+            this.log(`Found ${lists.length} lists\n`);
 
             const allMyTasks: Array<{task: any, listName: string, spaceName: string}> = [];
             const taskIdsSeen = new Set<string>(); // Track task IDs to avoid duplicates
 
-            // Check ALL spaces, folders, and lists
-            for (const space of spaces) {
+            for (const list of lists) {
+                // Get ALL tasks from this list (no assignee filter)
+                let tasks: any[];
                 try {
-                    // Get folders in the space
-                    const foldersResponse = await client.get(`/space/${space.id}/folder`);
-                    const folders = foldersResponse.data.folders || [];
-                    
-                    // Check ALL folders
-                    for (const folder of folders) {
-                        const listsResponse = await client.get(`/folder/${folder.id}/list`);
-                        const lists = listsResponse.data.lists || [];
-                        
-                        // Check ALL lists in folder
-                        for (const list of lists) {
-                            // Get ALL tasks from this list (no assignee filter)
-                            let page = 0;
-                            let hasMore = true;
-                            const pageSize = 100;
-                            
-                            while (hasMore) {
-                                try {
-                                    const tasksResponse = await client.get(`/list/${list.id}/task`, {
-                                        params: {
-                                            include_closed: true,  // Include closed tasks too
-                                            subtasks: false,
-                                            include_timl: true,  // Include tasks that exist in multiple lists
-                                            page: page
-                                        }
-                                    });
-                                    
-                                    const tasks = tasksResponse.data.tasks || [];
-                                    this.log(`    List "${list.name}": Fetched ${tasks.length} tasks (page ${page + 1})`);
-                                    
-                                    // Filter tasks where current user is in assignees
-                                    let tasksAssignedToMe = 0;
-                                    tasks.forEach((task: any) => {
-                                        const assigneeIds = (task.assignees || []).map((assignee: any) => {
-                                            return String(assignee.id || assignee.user?.id || assignee.user_id || '');
-                                        });
-                                        
-                                        if (assigneeIds.includes(currentUserId)) {
-                                            // Avoid duplicates (tasks can appear in multiple lists)
-                                            if (!taskIdsSeen.has(task.id)) {
-                                                taskIdsSeen.add(task.id);
-                                                allMyTasks.push({
-                                                    task: task,
-                                                    listName: list.name,
-                                                    spaceName: space.name
-                                                });
-                                                tasksAssignedToMe++;
-                                            }
-                                        }
-                                    });
-                                    
-                                    if (tasksAssignedToMe > 0) {
-                                        this.log(`      → Found ${tasksAssignedToMe} tasks assigned to you in this page`);
-                                    }
-                                    
-                                    hasMore = tasks.length === pageSize;
-                                    page++;
-                                    
-                                    if (page > 100) break;
-                                } catch (err: any) {
-                                    this.log(`Error fetching tasks from list ${list.id}: ${err.message}`);
-                                    break;
-                                }
-                            }
-                        }
-                    }
-                    
-                    // Also check ALL folderless lists
-                    const spaceListsResponse = await client.get(`/space/${space.id}/list`);
-                    const spaceLists = spaceListsResponse.data.lists || [];
-                    
-                    for (const list of spaceLists) {
-                        let page = 0;
-                        let hasMore = true;
-                        const pageSize = 100;
-                        
-                        while (hasMore) {
-                            try {
-                                const tasksResponse = await client.get(`/list/${list.id}/task`, {
-                                    params: {
-                                        include_closed: false,
-                                        subtasks: false,
-                                        include_timl: true,  // Include tasks that exist in multiple lists
-                                        page: page
-                                    }
-                                });
-                                
-                                const tasks = tasksResponse.data.tasks || [];
-                                this.log(`    Folderless list "${list.name}": Fetched ${tasks.length} tasks (page ${page + 1})`);
-                                
-                                // Filter tasks where current user is in assignees
-                                let tasksAssignedToMe = 0;
-                                tasks.forEach((task: any) => {
-                                    const assigneeIds = (task.assignees || []).map((assignee: any) => {
-                                        return String(assignee.id || assignee.user?.id || assignee.user_id || '');
-                                    });
-                                    
-                                    if (assigneeIds.includes(currentUserId)) {
-                                        // Avoid duplicates (tasks can appear in multiple lists)
-                                        if (!taskIdsSeen.has(task.id)) {
-                                            taskIdsSeen.add(task.id);
-                                            allMyTasks.push({
-                                                task: task,
-                                                listName: list.name,
-                                                spaceName: space.name
-                                            });
-                                            tasksAssignedToMe++;
-                                        }
-                                    }
-                                });
-                                
-                                if (tasksAssignedToMe > 0) {
-                                    this.log(`      → Found ${tasksAssignedToMe} tasks assigned to you in this page`);
-                                }
-                                
-                                hasMore = tasks.length === pageSize;
-                                page++;
-                                
-                                if (page > 100) break;
-                            } catch (err: any) {
-                                this.log(`Error fetching tasks from list ${list.id}: ${err.message}`);
-                                break;
-                            }
-                        }
+                    tasks = await this.fetchAllTaskPages(client, `/list/${list.id}/task`, {
+                        include_closed: true,  // Include closed tasks too
+                        subtasks: false,
+                        include_timl: true  // Include tasks that exist in multiple lists
+                    });
+                } catch (err: any) {
+                    this.log(`Error fetching tasks from list ${list.id}: ${err.message}`);
+                    continue;
+                }
+                this.log(`    List "${list.name}": Fetched ${tasks.length} tasks`);
+
+                // Filter tasks where current user is in assignees
+                let tasksAssignedToMe = 0;
+                tasks.forEach((task: any) => {
+                    // Avoid duplicates (tasks can appear in multiple lists)
+                    if (isAssignedTo(task, currentUserId) && !taskIdsSeen.has(task.id)) {
+                        taskIdsSeen.add(task.id);
+                        allMyTasks.push({
+                            task: task,
+                            listName: list.name,
+                            spaceName: list.space.name
+                        });
+                        tasksAssignedToMe++;
                     }
-                } catch (error: any) {
-                    this.log(`Error inspecting space ${space.id}: ${error.message}`);
+                });
+
+                if (tasksAssignedToMe > 0) {
+                    this.log(`      → Found ${tasksAssignedToMe} tasks assigned to you`);
                 }
             }
             
@@ -345,176 +722,56 @@ export class ClickUpService {
         }
 
         try {
-            // Get current user ID
-            const currentUserId = await this.getCurrentUserId(client);
+            const { userId: currentUserId, teamId: targetTeamId } = await this.getSession(client);
             this.log(`\n=== DEBUG: Fetching raw task data ===`);
             this.log(`Current user ID: ${currentUserId}`);
-
-            // Get teams
-            const teamsResponse = await client.get('/team');
-            const teams = teamsResponse.data.teams;
-            const targetTeamId = teams[0].id;
             this.log(`Using team: ${targetTeamId}`);
 
-            // Get spaces
-            const spacesResponse = await client.get(`/team/${targetTeamId}/space`);
-            const spaces = spacesResponse.data.spaces || [];
-            this.log(`Found ${spaces.length} spaces`);
-
             // Check ALL spaces, folders, and lists
+            const lists = await this.getAllLists(client, targetTeamId);
+            this.log(`Found ${lists.length} lists`);
+
             const allStatuses = new Set<string>();
             const allTasksAssignedToMe: any[] = [];
             
-            for (const space of spaces) { // Check ALL spaces
+            for (const list of lists) {
+                const location = list.folder
+                    ? `${list.space.name} / ${list.folder.name}`
+                    : `${list.space.name} (folderless)`;
+                this.log(`\n    List: ${list.name} (${list.id}) in ${location}`);
+                
+                // Get list details to see available statuses
                 try {
-                    this.log(`\n=== Space: ${space.name} (${space.id}) ===`);
-                    
-                    // Get folders in the space
-                    const foldersResponse = await client.get(`/space/${space.id}/folder`);
-                    const folders = foldersResponse.data.folders || [];
-                    
-                    // Check ALL folders
-                    for (const folder of folders) {
-                        this.log(`\n  Folder: ${folder.name} (${folder.id})`);
-                        const listsResponse = await client.get(`/folder/${folder.id}/list`);
-                        const lists = listsResponse.data.lists || [];
-                        
-                        // Check ALL lists in folder
-                        for (const list of lists) {
-                            this.log(`\n    List: ${list.name} (${list.id})`);
-                            
-                            // Get list details to see available statuses
-                            try {
-                                const listDetailsResponse = await client.get(`/list/${list.id}`);
-                                const listDetails = listDetailsResponse.data;
-                                if (listDetails.statuses) {
-                                    this.log(`    Available statuses:`);
-                                    listDetails.statuses.forEach((status: any) => {
-                                        const statusName = status.status;
-                                        allStatuses.add(statusName);
-                                        this.log(`      - "${statusName}" (type: ${status.type}, order: ${status.orderindex})`);
-                                    });
-                                }
-                            } catch (err: any) {
-                                this.log(`    Error getting list details: ${err.message}`);
-                            }
-                            
-                            // Get tasks with assignee filter (with pagination)
-                            try {
-                                let page = 0;
-                                let hasMore = true;
-                                const pageSize = 100;
-                                
-                                while (hasMore) {
-                                    const tasksResponse = await client.get(`/list/${list.id}/task`, {
-                                        params: {
-                                            assignees: [currentUserId],
-                                            include_closed: false,
-                                            subtasks: false,
-                                            include_timl: true,  // Include tasks that exist in multiple lists
-                                            page: page
-                                        },
-                                        paramsSerializer: (params: any) => {
-                                            const searchParams = new URLSearchParams();
-                                            Object.keys(params).forEach(key => {
-                                                const value = params[key];
-                                                if (Array.isArray(value)) {
-                                                    value.forEach(v => searchParams.append(`${key}[]`, String(v)));
-                                                } else {
-                                                    searchParams.append(key, String(value));
-                                                }
-                                            });
-                                            return searchParams.toString();
-                                        }
-                                    });
-                                    
-                                    const tasks = tasksResponse.data.tasks || [];
-                                    allTasksAssignedToMe.push(...tasks);
-                                    
-                                    this.log(`    Found ${tasks.length} tasks assigned to you (page ${page + 1})`);
-                                    tasks.forEach((task: any) => {
-                                        this.log(`      - "${task.name}" - Status: "${task.status?.status}"`);
-                                    });
-                                    
-                                    hasMore = tasks.length === pageSize;
-                                    page++;
-                                    
-                                    if (page > 100) break; // Safety limit
-                                }
-                            } catch (err: any) {
-                                this.log(`    Error fetching tasks: ${err.message}`);
-                            }
-                        }
+                    const listDetailsResponse = await client.get(`/list/${list.id}`);
+                    const listDetails = listDetailsResponse.data;
+                    if (listDetails.statuses) {
+                        this.log(`    Available statuses:`);
+                        listDetails.statuses.forEach((status: any) => {
+                            const statusName = status.status;
+                            allStatuses.add(statusName);
+                            this.log(`      - "${statusName}" (type: ${status.type}, order: ${status.orderindex})`);
+                        });
                     }
+                } catch (err: any) {
+                    this.log(`    Error getting list details: ${err.message}`);
+                }
+                
+                // Get tasks with assignee filter
+                try {
+                    const tasks = await this.fetchAllTaskPages(client, `/list/${list.id}/task`, {
+                        assignees: [currentUserId],
+                        include_closed: false,
+                        subtasks: false,
+                        include_timl: true  // Include tasks that exist in multiple lists
+                    });
+                    allTasksAssignedToMe.push(...tasks);
                     
-                    // Also check ALL folderless lists
-                    const spaceListsResponse = await client.get(`/space/${space.id}/list`);
-                    const spaceLists = spaceListsResponse.data.lists || [];
-                    
-                    if (spaceLists.length > 0) {
-                        this.log(`\n  Folderless lists:`);
-                        for (const list of spaceLists) {
-                            this.log(`\n    List: ${list.name} (${list.id})`);
-                            try {
-                                const listDetailsResponse = await client.get(`/list/${list.id}`);
-                                const listDetails = listDetailsResponse.data;
-                                if (listDetails.statuses) {
-                                    this.log(`    Available statuses:`);
-                                    listDetails.statuses.forEach((status: any) => {
-                                        const statusName = status.status;
-                                        allStatuses.add(statusName);
-                                        this.log(`      - "${statusName}" (type: ${status.type}, order: ${status.orderindex})`);
-                                    });
-                                }
-                                
-                                // Get tasks from folderless lists too
-                                let page = 0;
-                                let hasMore = true;
-                                const pageSize = 100;
-                                
-                                while (hasMore) {
-                                    const tasksResponse = await client.get(`/list/${list.id}/task`, {
-                                        params: {
-                                            assignees: [currentUserId],
-                                            include_closed: false,
-                                            subtasks: false,
-                                            include_timl: true,  // Include tasks that exist in multiple lists
-                                            page: page
-                                        },
-                                        paramsSerializer: (params: any) => {
-                                            const searchParams = new URLSearchParams();
-                                            Object.keys(params).forEach(key => {
-                                                const value = params[key];
-                                                if (Array.isArray(value)) {
-                                                    value.forEach(v => searchParams.append(`${key}[]`, String(v)));
-                                                } else {
-                                                    searchParams.append(key, String(value));
-                                                }
-                                            });
-                                            return searchParams.toString();
-                                        }
-                                    });
-                                    
-                                    const tasks = tasksResponse.data.tasks || [];
-                                    allTasksAssignedToMe.push(...tasks);
-                                    
-                                    this.log(`    Found ${tasks.length} tasks assigned to you (page ${page + 1})`);
-                                    tasks.forEach((task: any) => {
-                                        this.log(`      - "${task.name}" - Status: "${task.status?.status}"`);
-                                    });
-                                    
-                                    hasMore = tasks.length === pageSize;
-                                    page++;
-                                    
-                                    if (page > 100) break;
-                                }
-                            } catch (err: any) {
-                                this.log(`    Error: ${err.message}`);
-                            }
-                        }
-                    }
-                } catch (error: any) {
-                    this.log(`Error inspecting space ${space.id}: ${error.message}`);
+                    this.log(`    Found ${tasks.length} tasks assigned to you`);
+                    tasks.forEach((task: any) => {
+                        this.log(`      - "${task.name}" - Status: "${task.status?.status}"`);
+                    });
+                } catch (err: any) {
+                    this.log(`    Error fetching tasks: ${err.message}`);
                 }
             }
             
@@ -550,30 +807,16 @@ export class ClickUpService {
         }
     }
 
+
     /**
-     * Get the currently running time entry, if any
-     * @returns The task ID of the currently tracked task, or null if none
+     * Get the running time entry, which is the source of truth for the internal timer
+     * @returns The tracked task and when its timer started, or null if no timer is running
      */
-    private async getCurrentTimeEntryTaskId(client: AxiosInstance, teamId: string): Promise<string | null> {
+    private async getCurrentTimeEntry(client: AxiosInstance, teamId: string): Promise<CurrentTimeEntry | null> {
         try {
-            // Try ClickUp API endpoint to get current time entry
-            // The endpoint might be /team/{team_id}/time_entries/current or similar
+            // GET /team/{team_id}/time_entries/current
             const response = await client.get(`/team/${teamId}/time_entries/current`);
-            
-            // Handle different possible response structures
-            const timeEntry = response.data?.data || response.data;
-            
-            if (timeEntry) {
-                // Check various possible structures for task ID
-                const taskId = timeEntry.task?.id || 
-                             timeEntry.task_id || 
-                             timeEntry.taskId;
-                
-                if (taskId) {
-                    return String(taskId);
-                }
-            }
-            return null;
+            return toCurrentTimeEntry(response.data?.data || response.data);
         } catch (error: any) {
             // If there's no current time entry, the API returns 404 or similar
             // This is expected when no timer is running
@@ -589,36 +832,29 @@ export class ClickUpService {
     /**
      * Start time tracking for a task
      * @param taskId The task ID to start tracking
+     * @param description Optional description of the time entry
      * @returns Promise that resolves when tracking starts
      */
-    async startTimeTracking(taskId: string): Promise<void> {
+    async startTimeTracking(taskId: string, description?: string): Promise<void> {
         const client = this.getApiClient();
         if (!client) {
             throw new Error('ClickUp API token not configured. Please configure it in settings.');
         }
 
         try {
-            // Get team ID
-            const teamsResponse = await client.get('/team');
-            const teams = teamsResponse.data.teams;
-            
-            if (!teams || teams.length === 0) {
-                throw new Error('No teams found in your ClickUp account');
-            }
-
-            const config = vscode.workspace.getConfiguration('clickupTasks');
-            const teamId = config.get<string>('teamId', '');
-            const targetTeamId = teamId || teams[0].id;
+            const { teamId: targetTeamId } = await this.getSession(client);
 
             // ClickUp API endpoint to start time tracking
             // POST /team/{team_id}/time_entries/start
             // The request body should contain: { tid: task_id }
-            await client.post(`/team/${targetTeamId}/time_entries/start`, {
-                tid: taskId // task ID (required)
+            const startResponse = await client.post(`/team/${targetTeamId}/time_entries/start`, {
+                tid: taskId, // task ID (required)
+                description
             });
 
-            // Store internal timer start time
-            this.internalTimerStartTimes.set(taskId, Date.now());
+            // Store internal timer start time; ClickUp runs one timer at a time, so any other one has stopped
+            const startedEntry = toCurrentTimeEntry(startResponse.data?.data || startResponse.data);
+            this.setInternalTimer(taskId, startedEntry?.start || Date.now());
             this.log(`Started time tracking for task ${taskId}`);
         } catch (error: any) {
             if (error.response) {
@@ -628,7 +864,7 @@ export class ClickUpService {
                     this.log(`Timer already running, stopping current timer first...`);
                     await this.stopTimeTracking();
                     // Retry starting the new timer
-                    await this.startTimeTracking(taskId);
+                    await this.startTimeTracking(taskId, description);
                     return;
                 }
                 throw new Error(`Failed to start time tracking: ${errorMessage}`);
@@ -653,14 +889,6 @@ export class ClickUpService {
             const response = await client.get(`/task/${taskId}`);
             const task = response.data;
 
-            // Extract time_spent from task object (in milliseconds)
-            let timeTracked = 0;
-            if (task.time_spent !== undefined && task.time_spent !== null) {
-                timeTracked = typeof task.time_spent === 'string' 
-                    ? parseInt(task.time_spent, 10) || 0
-                    : Number(task.time_spent) || 0;
-            }
-
             // Extract space info if available
             let spaceInfo = undefined;
             if (task.space) {
@@ -670,11 +898,7 @@ export class ClickUpService {
                 };
             }
 
-            return {
-                ...task,
-                space: spaceInfo,
-                timeTracked
-            };
+            return toClickUpTask(task, spaceInfo);
         } catch (error: any) {
             if (error.response?.status === 404) {
                 this.log(`Task ${taskId} not found`);
@@ -685,205 +909,644 @@ export class ClickUpService {
     }
 
     /**
-     * Stop the currently running time tracking
-     * @returns Promise that resolves with the task ID that was being tracked, or null if none
+     * Get a task with everything shown in its details panel (markdown description, custom fields,
+     * checklists, dependencies, ...)
+     * @param taskId The task ID
+     * @returns The task, or null if it doesn't exist (anymore)
      */
-    async stopTimeTracking(): Promise<string | null> {
+    async getTaskDetails(taskId: string): Promise<ClickUpTaskDetails | null> {
         const client = this.getApiClient();
         if (!client) {
             throw new Error('ClickUp API token not configured. Please configure it in settings.');
         }
 
         try {
-            // Get team ID
-            const teamsResponse = await client.get('/team');
-            const teams = teamsResponse.data.teams;
-            
-            if (!teams || teams.length === 0) {
-                throw new Error('No teams found in your ClickUp account');
+            // GET /task/{task_id}; the markdown description is only included on request
+            const response = await client.get(`/task/${taskId}`, {
+                params: { include_markdown_description: true }
+            });
+            const task = response.data;
+            return {
+                ...toClickUpTask(task, task.space ? { id: task.space.id, name: task.space.name } : undefined),
+                description: task.markdown_description || task.description || '',
+                tags: task.tags || [],
+                custom_fields: task.custom_fields || [],
+                checklists: task.checklists || [],
+                dependencies: task.dependencies || [],
+                linked_tasks: task.linked_tasks || []
+            };
+        } catch (error: any) {
+            if (error.response?.status === 404) {
+                this.log(`Task ${taskId} not found`);
+                return null;
             }
-
-            const config = vscode.workspace.getConfiguration('clickupTasks');
-            const teamId = config.get<string>('teamId', '');
-            const targetTeamId = teamId || teams[0].id;
-
-            // Get the currently tracked task ID BEFORE stopping (so we know which timer to clear)
-            const currentlyTrackedTaskId = await this.getCurrentTimeEntryTaskId(client, targetTeamId);
-
-            // ClickUp API endpoint to stop time tracking
-            // POST /team/{team_id}/time_entries/stop
-            await client.post(`/team/${targetTeamId}/time_entries/stop`);
-
-            // Clear internal timer for the task that was being tracked
-            // When stopping, ClickUp updates time_spent, so we reset our internal timer
-            if (currentlyTrackedTaskId) {
-                this.internalTimerStartTimes.delete(currentlyTrackedTaskId);
-                this.log(`Stopped and cleared internal timer for task ${currentlyTrackedTaskId} (time_spent updated in ClickUp)`);
-            } else if (this.internalTimerStartTimes.size > 0) {
-                // Fallback: if we couldn't determine which task, clear all timers
-                // This handles edge cases where the timer state is inconsistent
-                this.internalTimerStartTimes.clear();
-                this.log(`Stopped and cleared all internal timers (could not determine tracked task, time_spent updated)`);
+            if (error.response) {
+                const errorMessage = error.response.data?.err || error.message;
+                throw new Error(`Failed to load task details: ${errorMessage}`);
             }
+            throw error;
+        }
+    }
 
-            this.log(`Stopped time tracking`);
-            return currentlyTrackedTaskId;
+    /**
+     * Get the comments on a task, newest first
+     * @param taskId The task ID
+     */
+    async getTaskComments(taskId: string): Promise<ClickUpComment[]> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        try {
+            // GET /task/{task_id}/comment returns the latest 25 comments
+            const response = await client.get(`/task/${taskId}/comment`);
+            return (response.data?.comments || []).map(toClickUpComment);
         } catch (error: any) {
             if (error.response) {
                 const errorMessage = error.response.data?.err || error.message;
-                if (error.response.status === 400 || error.response.status === 404) {
-                    // No timer running - this is okay, just log it
-                    this.log(`No timer running to stop`);
-                    return null;
-                }
-                throw new Error(`Failed to stop time tracking: ${errorMessage}`);
+                throw new Error(`Failed to load comments: ${errorMessage}`);
             }
             throw error;
         }
     }
 
-    async getInProgressTasks(): Promise<ClickUpTask[]> {
+    /**
+     * Get the replies to a comment, oldest first
+     * @param commentId The comment ID
+     */
+    async getCommentReplies(commentId: string): Promise<ClickUpComment[]> {
         const client = this.getApiClient();
         if (!client) {
             throw new Error('ClickUp API token not configured. Please configure it in settings.');
         }
 
         try {
-            // First, get the user's teams
-            const teamsResponse = await client.get('/team');
-            const teams = teamsResponse.data.teams;
-            
-            if (!teams || teams.length === 0) {
-                throw new Error('No teams found in your ClickUp account');
+            // GET /comment/{comment_id}/reply
+            const response = await client.get(`/comment/${commentId}/reply`);
+            return (response.data?.comments || [])
+                .map(toClickUpComment)
+                .sort((a: ClickUpComment, b: ClickUpComment) => a.date - b.date);
+        } catch (error: any) {
+            if (error.response) {
+                const errorMessage = error.response.data?.err || error.message;
+                throw new Error(`Failed to load replies: ${errorMessage}`);
             }
+            throw error;
+        }
+    }
 
-            const config = vscode.workspace.getConfiguration('clickupTasks');
-            const teamId = config.get<string>('teamId', '');
-            const targetTeamId = teamId || teams[0].id;
+    /**
+     * Reply to a comment
+     * @param commentId The comment ID
+     * @param text The reply (plain text)
+     */
+    async addCommentReply(commentId: string, text: string): Promise<void> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
 
-            // Get current user ID first (needed for filtering)
-            const currentUserId = await this.getCurrentUserId(client);
-            this.log(`Current user ID: ${currentUserId} (type: ${typeof currentUserId})`);
+        try {
+            // POST /comment/{comment_id}/reply
+            await client.post(`/comment/${commentId}/reply`, {
+                comment_text: text,
+                notify_all: false
+            });
+            this.log(`Replied to comment ${commentId}`);
+        } catch (error: any) {
+            if (error.response) {
+                const errorMessage = error.response.data?.err || error.message;
+                throw new Error(`Failed to post reply: ${errorMessage}`);
+            }
+            throw error;
+        }
+    }
 
-            // Get the currently tracked task ID, if any
-            const currentlyTrackedTaskId = await this.getCurrentTimeEntryTaskId(client, targetTeamId);
-            if (currentlyTrackedTaskId) {
-                this.log(`Currently tracked task ID: ${currentlyTrackedTaskId}`);
+    /**
+     * Get the spaces of the configured team (from the session, so usually no request)
+     */
+    async getSpaceList(): Promise<ClickUpSpace[]> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        const { spaces } = await this.getSession(client);
+        return spaces;
+    }
+
+    /**
+     * Get the lists of a space, both in folders and folderless
+     */
+    async getListsOfSpace(space: { id: string; name: string }): Promise<ClickUpListRef[]> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        return this.getListsInSpace(client, space);
+    }
+
+    /**
+     * Get the people who can be assigned to tasks in a list
+     */
+    async getListMembers(listId: string): Promise<ClickUpMember[]> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        const response = await client.get(`/list/${listId}/member`);
+        return (response.data.members || []).map((member: any) => ({
+            id: String(member.id),
+            username: member.username || member.email || String(member.id),
+            email: member.email
+        }));
+    }
+
+    /**
+     * Get the ID of the user the API token belongs to
+     */
+    async getUserId(): Promise<string> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        const { userId } = await this.getSession(client);
+        return userId;
+    }
+
+    /**
+     * Create a task in a list
+     * @param list The list to create the task in
+     * @param params Task fields
+     * @returns The created task
+     */
+    async createTask(list: ClickUpListRef, params: NewTaskParams): Promise<ClickUpTask> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        try {
+            // POST /list/{list_id}/task
+            const response = await client.post(`/list/${list.id}/task`, {
+                name: params.name,
+                markdown_description: params.description || undefined,
+                priority: params.priority,
+                time_estimate: params.timeEstimate,
+                assignees: (params.assigneeIds || []).map(id => Number(id)),
+                status: params.status
+            });
+            this.log(`Created task ${response.data.id} in list ${list.name} (${list.id})`);
+            return toClickUpTask(response.data, list.space);
+        } catch (error: any) {
+            if (error.response) {
+                const errorMessage = error.response.data?.err || error.message;
+                throw new Error(`Failed to create task: ${errorMessage}`);
             }
+            throw error;
+        }
+    }
 
-            // Get configured in-progress status names (default to common variations)
-            const inProgressStatuses = config.get<string[]>('inProgressStatuses', [
-                'in progress',
-                'active',
-                'working',
-                'in-progress'
-            ]).map(s => s.toLowerCase());
-            this.log(`Looking for statuses: [${inProgressStatuses.join(', ')}]`);
+    /**
+     * Get the statuses a task in the list can be moved to
+     * Lists can override their space's statuses, so these come from the list itself
+     * @param listId The list ID
+     * @returns Statuses in workflow order
+     */
+    async getListStatuses(listId: string): Promise<ClickUpStatus[]> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
 
-            // Get all tasks for the team
-            const tasks: ClickUpTask[] = [];
-            
-            // Get spaces for the team
-            const spacesResponse = await client.get(`/team/${targetTeamId}/space`);
-            const spaces = spacesResponse.data.spaces || [];
+        const response = await client.get(`/list/${listId}`);
+        const statuses: ClickUpStatus[] = response.data.statuses || [];
+        return [...statuses].sort((a, b) => (a.orderindex ?? 0) - (b.orderindex ?? 0));
+    }
 
-            for (const space of spaces) {
-                try {
-                    // Get folders in the space
-                    const foldersResponse = await client.get(`/space/${space.id}/folder`);
-                    const folders = foldersResponse.data.folders || [];
-
-                    // Get lists from folders
-                    for (const folder of folders) {
-                        const listsResponse = await client.get(`/folder/${folder.id}/list`);
-                        const lists = listsResponse.data.lists || [];
-
-                        for (const list of lists) {
-                            const listTasks = await this.getTasksFromList(client, list.id, space, currentUserId);
-                            tasks.push(...listTasks);
-                        }
-                    }
+    /**
+     * Find the list's first status that counts as in progress (per the inProgressStatuses setting)
+     * @returns The status name as defined on the list, or undefined if the list has none
+     */
+    async findInProgressStatus(listId: string): Promise<string | undefined> {
+        const inProgressStatuses = this.getInProgressStatusNames();
+        const statuses = await this.getListStatuses(listId);
+        return statuses.find(status => inProgressStatuses.includes(status.status.toLowerCase()))?.status;
+    }
 
-                    // Get lists directly in space (not in folders)
-                    const spaceListsResponse = await client.get(`/space/${space.id}/list`);
-                    const spaceLists = spaceListsResponse.data.lists || [];
+    /**
+     * Move a task to another status
+     * @param taskId The task ID
+     * @param status Status name, as defined on the task's list
+     */
+    async updateTaskStatus(taskId: string, status: string): Promise<void> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
 
-                    for (const list of spaceLists) {
-                        const listTasks = await this.getTasksFromList(client, list.id, space, currentUserId);
-                        tasks.push(...listTasks);
-                    }
-                } catch (error) {
-                    console.error(`Error fetching tasks from space ${space.id}:`, error);
-                }
+        try {
+            // PUT /task/{task_id} with only the fields to change
+            await client.put(`/task/${taskId}`, { status });
+            this.log(`Changed status of task ${taskId} to "${status}"`);
+        } catch (error: any) {
+            if (error.response) {
+                const errorMessage = error.response.data?.err || error.message;
+                throw new Error(`Failed to change status: ${errorMessage}`);
             }
+            throw error;
+        }
+    }
 
-            // Filter tasks: assigned to current user AND status matches in-progress statuses
-            // Note: We filter client-side to ensure we catch all tasks regardless of API filtering quirks
-            const filteredTasks = tasks.filter(task => {
-                // Check if task is assigned to current user
-                // Handle different assignee object structures from API
-                const assigneeIds = task.assignees?.map(assignee => {
-                    // API might return assignee.id as number or string, or assignee.user.id
-                    return String(assignee.id || assignee.user?.id || assignee.user_id || '');
-                }) || [];
-                
-                const isAssignedToMe = assigneeIds.some(assigneeId => assigneeId === currentUserId);
-                
-                if (!isAssignedToMe) {
-                    return false;
+    /**
+     * Check or uncheck a checklist item
+     * @param checklistId The checklist ID
+     * @param itemId The checklist item ID
+     * @param resolved Whether the item is done
+     */
+    async setChecklistItemResolved(checklistId: string, itemId: string, resolved: boolean): Promise<void> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        try {
+            // PUT /checklist/{checklist_id}/checklist_item/{checklist_item_id}
+            await client.put(`/checklist/${checklistId}/checklist_item/${itemId}`, { resolved });
+            this.log(`${resolved ? 'Resolved' : 'Unresolved'} checklist item ${itemId}`);
+        } catch (error: any) {
+            if (error.response) {
+                const errorMessage = error.response.data?.err || error.message;
+                throw new Error(`Failed to update checklist item: ${errorMessage}`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Replace a task's description
+     * @param taskId The task ID
+     * @param markdown The new description (markdown)
+     * @returns The task's date_updated after the change
+     */
+    async updateTaskDescription(taskId: string, markdown: string): Promise<string | undefined> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        try {
+            // markdown_content takes precedence over the plain-text description field
+            const response = await client.put(`/task/${taskId}`, { markdown_content: markdown });
+            this.log(`Updated description of task ${taskId}`);
+            return response.data?.date_updated;
+        } catch (error: any) {
+            if (error.response) {
+                const errorMessage = error.response.data?.err || error.message;
+                throw new Error(`Failed to update description: ${errorMessage}`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Get the current user's time entries on a task, newest first
+     * @param taskId The task ID
+     */
+    async getTaskTimeEntries(taskId: string): Promise<ClickUpTimeEntry[]> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        const { teamId } = await this.getSession(client);
+        // GET /team/{team_id}/time_entries only covers the last 30 days unless a range is given
+        const response = await client.get(`/team/${teamId}/time_entries`, {
+            params: {
+                task_id: taskId,
+                start_date: 0,
+                end_date: Date.now() + 24 * 60 * 60 * 1000
+            }
+        });
+        return (response.data?.data || [])
+            .map(toClickUpTimeEntry)
+            .sort((a: ClickUpTimeEntry, b: ClickUpTimeEntry) => b.start - a.start);
+    }
+
+    /**
+     * Get the current user's time entries that started within a time range, oldest first
+     * @param start Range start (Unix timestamp, milliseconds)
+     * @param end Range end (Unix timestamp, milliseconds)
+     */
+    async getTimeEntries(start: number, end: number): Promise<ClickUpTimeEntry[]> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        try {
+            const { teamId, spaces } = await this.getSession(client);
+            // GET /team/{team_id}/time_entries defaults to the authenticated user's entries
+            const response = await client.get(`/team/${teamId}/time_entries`, {
+                params: {
+                    start_date: start,
+                    end_date: end,
+                    include_location_names: true
                 }
+            });
+            const entries: ClickUpTimeEntry[] = (response.data?.data || []).map(toClickUpTimeEntry);
+            // Fill in space names the API left out from the session's spaces
+            entries.forEach(entry => {
+                if (entry.space && !entry.space.name) {
+                    entry.space.name = spaces.find(space => space.id === entry.space!.id)?.name || '';
+                }
+            });
+            this.log(`Loaded ${entries.length} time entries between ${new Date(start).toISOString()} and ${new Date(end).toISOString()}`);
+            return entries.sort((a, b) => a.start - b.start);
+        } catch (error: any) {
+            if (error.response) {
+                const errorMessage = error.response.data?.err || error.message;
+                throw new Error(`Failed to load time entries: ${errorMessage}`);
+            }
+            throw error;
+        }
+    }
 
-                // Check if status matches any of the configured in-progress statuses (case-insensitive)
-                // Handle different status object structures
-                const statusValue = task.status?.status || task.status || '';
-                const status = String(statusValue).toLowerCase().trim();
-                const matches = inProgressStatuses.includes(status);
-                
-                return matches;
+    /**
+     * Add a finished time entry to a task (as opposed to starting a timer)
+     * @param taskId The task ID
+     * @param params When, how long and optional details
+     */
+    async addTimeEntry(taskId: string, params: NewTimeEntryParams): Promise<void> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        try {
+            const { teamId } = await this.getSession(client);
+            // POST /team/{team_id}/time_entries
+            await client.post(`/team/${teamId}/time_entries`, {
+                tid: taskId,
+                start: params.start,
+                duration: params.duration,
+                description: params.description || undefined,
+                billable: params.billable,
+                tags: params.tags?.map(name => ({ name }))
             });
-            
-            // Mark which task is currently being tracked
+            this.log(`Added ${Math.round(params.duration / 60000)}m time entry to task ${taskId}`);
+        } catch (error: any) {
+            if (error.response) {
+                const errorMessage = error.response.data?.err || error.message;
+                throw new Error(`Failed to add time entry: ${errorMessage}`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Change an existing time entry
+     * @param entryId The time entry ID
+     * @param changes Fields to change
+     */
+    async updateTimeEntry(entryId: string, changes: TimeEntryChanges): Promise<void> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        try {
+            const { teamId } = await this.getSession(client);
+            // PUT /team/{team_id}/time_entries/{timer_id}; ClickUp wants the duration along with start/end
+            const body: Record<string, any> = { ...changes };
+            if (changes.start !== undefined && changes.end !== undefined) {
+                body.duration = changes.end - changes.start;
+            }
+            await client.put(`/team/${teamId}/time_entries/${entryId}`, body);
+            this.log(`Updated time entry ${entryId}`);
+        } catch (error: any) {
+            if (error.response) {
+                const errorMessage = error.response.data?.err || error.message;
+                throw new Error(`Failed to update time entry: ${errorMessage}`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Delete a time entry
+     * @param entryId The time entry ID
+     */
+    async deleteTimeEntry(entryId: string): Promise<void> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        try {
+            const { teamId } = await this.getSession(client);
+            // DELETE /team/{team_id}/time_entries/{timer_id}
+            await client.delete(`/team/${teamId}/time_entries/${entryId}`);
+            this.log(`Deleted time entry ${entryId}`);
+        } catch (error: any) {
+            if (error.response) {
+                const errorMessage = error.response.data?.err || error.message;
+                throw new Error(`Failed to delete time entry: ${errorMessage}`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Post a comment on a task
+     * @param taskId The task ID
+     * @param text Comment text
+     */
+    async addTaskComment(taskId: string, text: string): Promise<void> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        try {
+            // POST /task/{task_id}/comment
+            await client.post(`/task/${taskId}/comment`, {
+                comment_text: text,
+                notify_all: false
+            });
+            this.log(`Posted comment on task ${taskId}`);
+        } catch (error: any) {
+            if (error.response) {
+                const errorMessage = error.response.data?.err || error.message;
+                throw new Error(`Failed to post comment: ${errorMessage}`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Check whether a task belongs in the in-progress list (assigned to the current user
+     * and in one of the configured in-progress statuses)
+     */
+    async isTaskInProgress(task: ClickUpTask): Promise<boolean> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        const { userId } = await this.getSession(client);
+        return isInProgressFor(task, userId, this.getInProgressStatusNames());
+    }
+
+    /**
+     * Stop the currently running time tracking
+     * @param stopAt End the entry at this earlier time (milliseconds) instead of now, e.g. to drop idle time.
+     *               The entry is deleted if it started after this time
+     * @returns Promise that resolves with the task ID that was being tracked, or null if none
+     */
+    async stopTimeTracking(stopAt?: number): Promise<string | null> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        try {
+            const { teamId: targetTeamId } = await this.getSession(client);
+
+            // ClickUp API endpoint to stop time tracking
+            // POST /team/{team_id}/time_entries/stop
+            // The response contains the stopped entry, so we know which timer to clear without another request
+            const stopResponse = await client.post(`/team/${targetTeamId}/time_entries/stop`);
+            const stoppedEntry = stopResponse.data?.data || stopResponse.data;
+            const stoppedTaskId = stoppedEntry?.task?.id || stoppedEntry?.task_id;
+            const currentlyTrackedTaskId = stoppedTaskId ? String(stoppedTaskId) : null;
+
+            // Clear internal timer for the task that was being tracked
+            // When stopping, ClickUp updates time_spent, so we reset our internal timer
             if (currentlyTrackedTaskId) {
-                const trackedTaskIdStr = String(currentlyTrackedTaskId);
-                
-                // Find the previously tracked task (if any) that is different from the current one
-                // Only one task can be tracked at a time, so find any task in our map that's not the current one
-                const previousTrackedTasks = Array.from(this.internalTimerStartTimes.keys())
-                    .filter(id => String(id) !== trackedTaskIdStr);
-                
-                // If a different task was previously tracked, clear its timer
-                // (ClickUp has updated time_spent for the previous task when tracking switched)
-                if (previousTrackedTasks.length > 0) {
-                    previousTrackedTasks.forEach(prevTaskId => {
-                        this.internalTimerStartTimes.delete(prevTaskId);
-                        this.log(`Cleared internal timer for previous task ${prevTaskId} (tracking switched to ${trackedTaskIdStr}, time_spent updated)`);
-                    });
+                this.clearInternalTimer(currentlyTrackedTaskId);
+                this.log(`Stopped and cleared internal timer for task ${currentlyTrackedTaskId} (time_spent updated in ClickUp)`);
+            } else if (this.internalTimerStartTimes.size > 0) {
+                // Fallback: if we couldn't determine which task, clear all timers
+                // This handles edge cases where the timer state is inconsistent
+                this.clearInternalTimers();
+                this.log(`Stopped and cleared all internal timers (could not determine tracked task, time_spent updated)`);
+            }
+
+            this.log(`Stopped time tracking`);
+
+            // ClickUp can only stop a timer now, so correct the entry afterwards
+            if (stopAt !== undefined && stoppedEntry?.id) {
+                const start = Number(stoppedEntry.start);
+                if (start && stopAt <= start) {
+                    await this.deleteTimeEntry(String(stoppedEntry.id));
+                } else {
+                    await this.updateTimeEntry(String(stoppedEntry.id), { start: start || undefined, end: stopAt });
                 }
-                
-                filteredTasks.forEach(task => {
-                    const isTracked = String(task.id) === trackedTaskIdStr;
-                    task.isCurrentlyTracked = isTracked;
-                    
-                    // Sync internal timer state with ClickUp API state
-                    // If ClickUp says it's tracked but we don't have an internal timer, start one
-                    // This handles the case where timer was started externally (e.g., in ClickUp web)
-                    if (isTracked && !this.internalTimerStartTimes.has(task.id)) {
-                        this.internalTimerStartTimes.set(task.id, Date.now());
-                        this.log(`Synced internal timer for task ${task.id} (started externally)`);
-                    }
-                });
-            } else {
-                // No task is currently tracked according to ClickUp API
-                // Clear all internal timers (ClickUp has updated time_spent for all when tracking stopped)
-                if (this.internalTimerStartTimes.size > 0) {
-                    this.internalTimerStartTimes.clear();
-                    this.log(`Cleared all internal timers (no task currently tracked, time_spent updated)`);
+            }
+            return currentlyTrackedTaskId;
+        } catch (error: any) {
+            if (error.response) {
+                const errorMessage = error.response.data?.err || error.message;
+                if (error.response.status === 400 || error.response.status === 404) {
+                    // No timer running - this is okay, just log it
+                    this.log(`No timer running to stop`);
+                    return null;
                 }
+                throw new Error(`Failed to stop time tracking: ${errorMessage}`);
+            }
+            throw error;
+        }
+    }
+
+
+    /**
+     * Whether getInProgressTaskChanges can be used instead of a full getInProgressTasks
+     * A full fetch is needed before the first delta and periodically afterwards, since
+     * deleted tasks never show up in a date_updated query
+     */
+    canSyncIncrementally(): boolean {
+        return this.lastSyncTime !== undefined
+            && this.lastFullSyncTime !== undefined
+            && Date.now() - this.lastFullSyncTime < FULL_SYNC_INTERVAL;
+    }
+
+    /**
+     * Forget the last sync time so the next refresh fetches everything again
+     */
+    resetSyncState(): void {
+        this.lastSyncTime = undefined;
+        this.lastFullSyncTime = undefined;
+    }
+
+    async getInProgressTasks(): Promise<InProgressTasksResult> {
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        try {
+            // Remember when this fetch started so the next delta doesn't miss updates made meanwhile
+            const syncStartedAt = Date.now();
+            const session = await this.getSession(client);
+            const { teamId: targetTeamId, userId: currentUserId } = session;
+            this.log(`Current user ID: ${currentUserId}`);
+
+            // Get the running time entry, if any
+            const currentEntry = await this.getCurrentTimeEntry(client, targetTeamId);
+            const currentlyTrackedTaskId = currentEntry?.taskId || null;
+            if (currentlyTrackedTaskId) {
+                this.log(`Currently tracked task ID: ${currentlyTrackedTaskId}`);
+            }
+
+            const inProgressStatuses = this.getInProgressStatusNames();
+            this.log(`Looking for statuses: [${inProgressStatuses.join(', ')}]`);
+            this.warnAboutUnknownStatuses(session, inProgressStatuses);
+
+            // Prefer the team-level filtered endpoint; only crawl the hierarchy if it fails
+            let tasks: ClickUpTask[];
+            const failures: string[] = [];
+            try {
+                tasks = await this.getTasksFromTeam(client, targetTeamId, currentUserId, inProgressStatuses);
+                this.log(`Team task endpoint returned ${tasks.length} tasks`);
+            } catch (error: any) {
+                if (error.response?.status === 401) {
+                    throw error;
+                }
+                this.log(`Team task endpoint failed (${error.response?.data?.err || error.message}), falling back to hierarchy crawl`);
+                tasks = await this.getTasksByCrawl(client, targetTeamId, currentUserId, inProgressStatuses, failures);
+                this.log(`Hierarchy crawl returned ${tasks.length} tasks`);
+                if (failures.length > 0) {
+                    this.log(`WARNING: Partial results, ${failures.length} part(s) of the workspace failed to load:\n  ${failures.join('\n  ')}`);
+                }
+            }
+
+            // Filter tasks: assigned to current user AND status matches in-progress statuses
+            // Note: The API already filters server-side, but we re-check here since status names
+            // are compared case-insensitively and assignee objects come in several shapes
+            const filteredTasks = tasks.filter(task => isInProgressFor(task, currentUserId, inProgressStatuses));
+            
+            // Mark which task is currently being tracked
+            this.syncInternalTimers(currentEntry);
+            filteredTasks.forEach(task => {
+                task.isCurrentlyTracked = currentlyTrackedTaskId !== null && String(task.id) === currentlyTrackedTaskId;
+            });
+
+            // A partial result is not a sound base for deltas, so the next refresh is a full one again
+            if (failures.length === 0) {
+                this.lastSyncTime = syncStartedAt;
+                this.lastFullSyncTime = syncStartedAt;
+            } else {
+                this.resetSyncState();
             }
             
-            // time_spent is already included in the task object from getTasksFromList
+            // time_spent is already converted to timeTracked by toClickUpTask
             // It's in milliseconds according to ClickUp API documentation
-            return filteredTasks;
+            return { tasks: filteredTasks, failures };
         } catch (error: any) {
             if (error.response) {
                 if (error.response.status === 401) {
@@ -895,128 +1558,283 @@ export class ClickUpService {
         }
     }
 
-    private async getTasksFromList(
-        client: AxiosInstance, 
-        listId: string, 
-        space: any, 
-        assigneeId?: string
-    ): Promise<ClickUpTask[]> {
+    /**
+     * Fetch only the tasks updated since the last sync (date_updated_gt) and sort them into
+     * tasks that are (still) in progress and tasks that left the in-progress set, either
+     * because their status changed or because the current user was unassigned
+     * @param shownTasks The tasks currently shown; only these are checked for being unassigned
+     * @returns The changes, or null if there is no previous sync to build on (see canSyncIncrementally)
+     */
+    async getInProgressTaskChanges(shownTasks: ClickUpTask[]): Promise<TaskChangesResult | null> {
+        // Getting the client first: a changed token resets the sync state
+        const client = this.getApiClient();
+        if (!client) {
+            throw new Error('ClickUp API token not configured. Please configure it in settings.');
+        }
+
+        const lastSyncTime = this.lastSyncTime;
+        if (lastSyncTime === undefined || !this.canSyncIncrementally()) {
+            return null;
+        }
+
         try {
-            const params: any = {
-                include_closed: true,  // Include closed tasks to get all tasks
-                subtasks: true,  // Include subtasks (at least 1 level deep)
-                include_timl: true  // Include tasks that exist in multiple lists (Tasks in Multiple Lists)
-            };
+            const syncStartedAt = Date.now();
+            // Overlap with the previous sync to allow for clock differences with ClickUp's servers
+            const since = lastSyncTime - SYNC_OVERLAP;
+            const { teamId: targetTeamId, userId: currentUserId } = await this.getSession(client);
+            const currentEntry = await this.getCurrentTimeEntry(client, targetTeamId);
+            const currentlyTrackedTaskId = currentEntry?.taskId || null;
+            const inProgressStatuses = this.getInProgressStatusNames();
+
+            // No status filter here: a task moved to another status must come back too, so it
+            // can be removed from the tree
+            const assignedTasks = await this.fetchTeamTasks(client, targetTeamId, {
+                date_updated_gt: since,
+                include_closed: true,
+                subtasks: true,
+                assignees: [currentUserId]
+            });
 
-            // Use API filtering by assignee if provided - this is more efficient and accurate
-            // The debug method confirmed this works correctly
-            if (assigneeId) {
-                params.assignees = [assigneeId];
-            }
+            // Tasks the current user was unassigned from no longer match the assignee filter.
+            // Rather than every updated task in the team, only the lists of the shown tasks are
+            // searched for them
+            const assignedTaskIds = new Set(assignedTasks.map(task => task.id));
+            const shownTaskIds = new Set(shownTasks.map(task => task.id));
+            const shownListIds = Array.from(new Set(shownTasks.map(task => task.list?.id).filter((id): id is string => !!id)));
+            const unassignedTasks = shownListIds.length === 0 ? [] : (await this.fetchTeamTasks(client, targetTeamId, {
+                date_updated_gt: since,
+                include_closed: true,
+                subtasks: true,
+                list_ids: shownListIds
+            })).filter(task => shownTaskIds.has(task.id) && !assignedTaskIds.has(task.id));
+            const updatedTasks = [...assignedTasks, ...unassignedTasks];
+
+            const changed: ClickUpTask[] = [];
+            const removedTaskIds: string[] = [];
+            updatedTasks.forEach(task => {
+                if (isInProgressFor(task, currentUserId, inProgressStatuses)) {
+                    task.isCurrentlyTracked = currentlyTrackedTaskId !== null && String(task.id) === currentlyTrackedTaskId;
+                    changed.push(task);
+                } else {
+                    removedTaskIds.push(task.id);
+                }
+            });
+            this.log(`Incremental sync since ${new Date(since).toISOString()}: ${updatedTasks.length} updated task(s), ${changed.length} in progress`);
 
-            // Fetch all pages of tasks
-            const allTasks: any[] = [];
-            let page = 0;
-            let hasMore = true;
-            const pageSize = 100; // ClickUp API default page size
-
-            while (hasMore) {
-                params.page = page;
-                const response = await client.get(`/list/${listId}/task`, { 
-                    params,
-                    // Ensure array parameters are properly formatted
-                    paramsSerializer: (params) => {
-                        const searchParams = new URLSearchParams();
-                        Object.keys(params).forEach(key => {
-                            const value = params[key];
-                            if (Array.isArray(value)) {
-                                value.forEach(v => searchParams.append(`${key}[]`, String(v)));
-                            } else {
-                                searchParams.append(key, String(value));
-                            }
-                        });
-                        return searchParams.toString();
-                    }
-                });
-                
-                const tasks = response.data.tasks || [];
-                allTasks.push(...tasks);
-                
-                // Check if there are more pages
-                // Stop if we got fewer tasks than page size (last page)
-                hasMore = tasks.length === pageSize;
-                page++;
-                
-                // Safety limit to prevent infinite loops
-                if (page > 100) {
-                    this.log(`WARNING: Reached pagination limit for list ${listId}`);
-                    break;
+            this.syncInternalTimers(currentEntry);
+            this.lastSyncTime = syncStartedAt;
+
+            return { changed, removedTaskIds, currentlyTrackedTaskId };
+        } catch (error: any) {
+            if (error.response) {
+                if (error.response.status === 401) {
+                    throw new Error('Invalid ClickUp API token. Please check your configuration.');
                 }
+                throw new Error(`ClickUp API error: ${error.response.data?.err || error.message}`);
             }
+            throw error;
+        }
+    }
 
-            // Process tasks and extract subtasks
-            const processedTasks: ClickUpTask[] = [];
-            const processedTaskIds = new Set<string>(); // Track processed task IDs to avoid duplicates
+    /**
+     * Log a hint when none of the configured in-progress statuses exist in the workspace,
+     * which usually means the inProgressStatuses setting doesn't match the custom status names
+     */
+    private warnAboutUnknownStatuses(session: ClickUpSession, inProgressStatuses: string[]): void {
+        const knownStatuses = new Set<string>();
+        session.spaces.forEach(space => space.statuses.forEach(status => knownStatuses.add(String(status.status).toLowerCase())));
+        if (knownStatuses.size > 0 && !inProgressStatuses.some(status => knownStatuses.has(status))) {
+            this.log(`WARNING: None of the configured in-progress statuses exist in this workspace. Available statuses: [${Array.from(knownStatuses).join(', ')}]`);
+        }
+    }
 
-            for (const task of allTasks) {
-                // Process main task
-                if (!processedTaskIds.has(task.id)) {
-                    processedTaskIds.add(task.id);
-                    
-                    // Extract time_spent from task object (in milliseconds according to ClickUp API)
-                    // Handle both number and string formats
-                    let timeTracked = 0;
-                    if (task.time_spent !== undefined && task.time_spent !== null) {
-                        timeTracked = typeof task.time_spent === 'string' 
-                            ? parseInt(task.time_spent, 10) || 0
-                            : Number(task.time_spent) || 0;
-                    }
-                    
-                    processedTasks.push({
-                        ...task,
-                        space: {
-                            id: space.id,
-                            name: space.name
-                        },
-                        timeTracked
-                    });
+    /**
+     * Get configured in-progress status names (default to common variations), lowercased
+     */
+    private getInProgressStatusNames(): string[] {
+        const config = vscode.workspace.getConfiguration('clickupTasks');
+        return config.get<string[]>('inProgressStatuses', [
+            'in progress',
+            'active',
+            'working',
+            'in-progress'
+        ]).map(s => s.toLowerCase());
+    }
+
+    /**
+     * Sync internal timer state with the time entry ClickUp reports as running
+     * ClickUp's start time always wins, so timers started elsewhere (e.g. in the web app) or before
+     * a reload show the same elapsed time as ClickUp will record
+     * @param currentEntry The running time entry, or null if none
+     */
+    private syncInternalTimers(currentEntry: CurrentTimeEntry | null): void {
+        if (currentEntry) {
+            const previousStart = this.internalTimerStartTimes.get(currentEntry.taskId);
+            const start = currentEntry.start || previousStart || Date.now();
+            if (previousStart === start && this.internalTimerStartTimes.size === 1) {
+                return;
+            }
+
+            // Only one task can be tracked at a time; any other timer was stopped
+            // (ClickUp has updated time_spent for the previous task when tracking switched)
+            Array.from(this.internalTimerStartTimes.keys())
+                .filter(id => id !== currentEntry.taskId)
+                .forEach(prevTaskId => this.log(`Cleared internal timer for previous task ${prevTaskId} (tracking switched to ${currentEntry.taskId}, time_spent updated)`));
+
+            this.setInternalTimer(currentEntry.taskId, start);
+            if (previousStart === undefined) {
+                this.log(`Synced internal timer for task ${currentEntry.taskId} (started externally)`);
+            } else if (previousStart !== start) {
+                this.log(`Corrected internal timer start for task ${currentEntry.taskId} by ${Math.round((previousStart - start) / 1000)}s to match ClickUp's time entry`);
+            }
+        } else {
+            // No task is currently tracked according to ClickUp API
+            // Clear all internal timers (ClickUp has updated time_spent for all when tracking stopped)
+            if (this.internalTimerStartTimes.size > 0) {
+                this.clearInternalTimers();
+                this.log(`Cleared all internal timers (no task currently tracked, time_spent updated)`);
+            }
+        }
+    }
+
+    /**
+     * Fetch tasks through the team-level filtered endpoint: GET /team/{team_id}/task
+     * Assignee and status filtering happen server-side, so this is a single paginated
+     * request instead of one request per space, folder and list
+     * @param statuses Status names to include
+     */
+    private async getTasksFromTeam(
+        client: AxiosInstance,
+        teamId: string,
+        assigneeId: string,
+        statuses: string[]
+    ): Promise<ClickUpTask[]> {
+        return this.fetchTeamTasks(client, teamId, {
+            assignees: [assigneeId],
+            statuses,
+            include_closed: true,  // Let the statuses filter decide, in case a configured status is a closed one
+            subtasks: true  // Subtasks come back as separate tasks with a parent field
+        });
+    }
+
+    /**
+     * Fetch all pages of GET /team/{team_id}/task and attach space names
+     * @param params Filter params for the endpoint
+     */
+    private async fetchTeamTasks(client: AxiosInstance, teamId: string, params: Record<string, any>): Promise<ClickUpTask[]> {
+        const rawTasks = await this.fetchAllTaskPages(client, `/team/${teamId}/task`, params);
+
+        // This endpoint only returns the space ID; names come from the session
+        const session = await this.getSession(client);
+        const hasUnknownSpace = rawTasks.some(task => task.space?.id && !session.spaces.some(space => space.id === String(task.space.id)));
+        if (hasUnknownSpace) {
+            // A space was created since the session was resolved
+            try {
+                session.spaces = await this.getSpaces(client, teamId);
+            } catch (error: any) {
+                this.log(`Warning: Could not load space names: ${error.message}`);
+            }
+        }
+
+        return rawTasks.map(task => {
+            const spaceId = task.space?.id ? String(task.space.id) : '';
+            const knownSpace = session.spaces.find(space => space.id === spaceId);
+            const space = spaceId
+                ? { id: spaceId, name: knownSpace?.name || task.space.name || spaceId }
+                : undefined;
+            return toClickUpTask(task, space);
+        });
+    }
+
+    /**
+     * Fallback for getTasksFromTeam: walk the hierarchy and fetch tasks list by list
+     * @param failures Receives a description of every space or list that failed to load
+     */
+    private async getTasksByCrawl(
+        client: AxiosInstance,
+        teamId: string,
+        assigneeId: string,
+        statuses: string[],
+        failures: string[]
+    ): Promise<ClickUpTask[]> {
+        const lists = await this.getAllLists(client, teamId, failures);
+
+        const tasksPerList = await Promise.all(lists.map(async list => {
+            try {
+                return await this.getTasksFromList(client, list.id, list.space, assigneeId, statuses);
+            } catch (error: any) {
+                this.log(`Error fetching tasks from list ${list.id}: ${error.message}`);
+                failures.push(`List "${list.name}" in ${list.space.name}: ${error.response?.data?.err || error.message}`);
+                return [];
+            }
+        }));
+
+        const tasks: ClickUpTask[] = [];
+        const taskIdsSeen = new Set<string>(); // Tasks in multiple lists are returned once per list
+
+        for (const listTasks of tasksPerList) {
+            listTasks.forEach(task => {
+                if (!taskIdsSeen.has(task.id)) {
+                    taskIdsSeen.add(task.id);
+                    tasks.push(task);
                 }
+            });
+        }
 
-                // Extract and process subtasks (at least 1 level deep)
-                // ClickUp API may return subtasks nested in task.subtasks array
-                if (task.subtasks && Array.isArray(task.subtasks)) {
-                    for (const subtask of task.subtasks) {
-                        if (!processedTaskIds.has(subtask.id)) {
-                            processedTaskIds.add(subtask.id);
-                            
-                            // Extract time_spent from subtask
-                            let subtaskTimeTracked = 0;
-                            if (subtask.time_spent !== undefined && subtask.time_spent !== null) {
-                                subtaskTimeTracked = typeof subtask.time_spent === 'string' 
-                                    ? parseInt(subtask.time_spent, 10) || 0
-                                    : Number(subtask.time_spent) || 0;
-                            }
-                            
-                            processedTasks.push({
-                                ...subtask,
-                                space: {
-                                    id: space.id,
-                                    name: space.name
-                                },
-                                timeTracked: subtaskTimeTracked
-                            });
-                        }
+        return tasks;
+    }
+
+    private async getTasksFromList(
+        client: AxiosInstance, 
+        listId: string, 
+        space: { id: string; name: string }, 
+        assigneeId?: string,
+        statuses?: string[]
+    ): Promise<ClickUpTask[]> {
+        const params: Record<string, any> = {
+            include_closed: true,  // Include closed tasks; the statuses filter decides what comes back
+            subtasks: true,  // Include subtasks (at least 1 level deep)
+            include_timl: true  // Include tasks that exist in multiple lists (Tasks in Multiple Lists)
+        };
+
+        // Use API filtering by assignee and status if provided - this is more efficient and accurate
+        if (assigneeId) {
+            params.assignees = [assigneeId];
+        }
+        if (statuses && statuses.length > 0) {
+            params.statuses = statuses;
+        }
+
+        const allTasks = await this.fetchAllTaskPages(client, `/list/${listId}/task`, params);
+
+        // Process tasks and extract subtasks
+        const processedTasks: ClickUpTask[] = [];
+        const processedTaskIds = new Set<string>(); // Track processed task IDs to avoid duplicates
+
+        for (const task of allTasks) {
+            // Process main task
+            if (!processedTaskIds.has(task.id)) {
+                processedTaskIds.add(task.id);
+                processedTasks.push(toClickUpTask(task, space));
+            }
+
+            // Extract and process subtasks (at least 1 level deep)
+            // ClickUp API may return subtasks nested in task.subtasks array
+            if (task.subtasks && Array.isArray(task.subtasks)) {
+                for (const subtask of task.subtasks) {
+                    if (!processedTaskIds.has(subtask.id)) {
+                        processedTaskIds.add(subtask.id);
+                        // Nested subtasks don't always carry their parent ID
+                        processedTasks.push(toClickUpTask({ parent: task.id, ...subtask }, space));
                     }
                 }
             }
-
-            return processedTasks;
-        } catch (error) {
-            this.log(`Error fetching tasks from list ${listId}: ${error}`);
-            return [];
         }
+
+        return processedTasks;
     }
 
+
     /**
      * Get the elapsed time (in milliseconds) for a task if it's currently being tracked internally
      * @param taskId The task ID to check
@@ -1030,6 +1848,14 @@ export class ClickUpService {
         return Date.now() - startTime;
     }
 
+    /**
+     * Get the task that has an internal timer running
+     * @returns The task ID, or undefined if nothing is tracked
+     */
+    getTrackedTaskId(): string | undefined {
+        return this.internalTimerStartTimes.keys().next().value;
+    }
+
     /**
      * Check if a task is being tracked internally
      * @param taskId The task ID to check
@@ -1044,7 +1870,33 @@ export class ClickUpService {
      * @param taskId The task ID to clear
      */
     clearInternalTimer(taskId: string): void {
-        this.internalTimerStartTimes.delete(taskId);
+        if (this.internalTimerStartTimes.delete(taskId)) {
+            this.saveInternalTimer();
+        }
+    }
+
+    /**
+     * Make a task the only one with a running internal timer
+     * @param start Start timestamp (milliseconds), ideally ClickUp's
+     */
+    private setInternalTimer(taskId: string, start: number): void {
+        this.internalTimerStartTimes.clear();
+        this.internalTimerStartTimes.set(taskId, start);
+        this.saveInternalTimer();
+    }
+
+    private clearInternalTimers(): void {
+        this.internalTimerStartTimes.clear();
+        this.saveInternalTimer();
+    }
+
+    /**
+     * Persist the running timer so the elapsed time is right straight after a reload
+     */
+    private saveInternalTimer(): void {
+        const [entry] = this.internalTimerStartTimes.entries();
+        const runningTimer: CurrentTimeEntry | undefined = entry ? { taskId: entry[0], start: entry[1] } : undefined;
+        this.storage?.update(RUNNING_TIMER_KEY, runningTimer);
     }
 
 }
@@ -1,92 +1,273 @@
 import * as vscode from 'vscode';
-import { ClickUpService, ClickUpTask } from './clickupService';
+import { ClickUpChecklist, ClickUpService, ClickUpTask, ClickUpTimeEntry, TaskChangesResult } from './clickupService';
+import { TaskCache } from './taskCache';
+import { formatDateTime, formatTime } from './timeFormat';
+import { GroupByMode, getGroupKey, groupTasks, TaskGroup } from './taskGrouping';
+import { buildTaskHierarchy, getMissingParentIds, TaskNode } from './taskHierarchy';
+
+// URI schemes used to color task labels (see TaskDecorationProvider)
+export const CONTEXT_TASK_SCHEME = 'clickup-context-task'; // Parents that are not in progress, dimmed
+export const ACTIVE_TASK_SCHEME = 'clickup-active-task'; // Task of the current git branch, highlighted
+// How many levels of parent tasks to fetch for nested subtasks
+const MAX_PARENT_FETCH_DEPTH = 5;
 
 /**
- * Format time in milliseconds to a human-readable string like "3h23m" or "2m30s"
- * @param milliseconds Time in milliseconds
- * @param includeSeconds Whether to include seconds for short durations (default: false)
- * @returns Formatted string like "3h23m" or "2m30s" or empty string if no time
+ * Count the resolved and all items of a task's checklists
  */
-function formatTime(milliseconds: number, includeSeconds: boolean = false): string {
-    if (!milliseconds || milliseconds <= 0) {
-        return '';
-    }
-    
-    const totalSeconds = Math.floor(milliseconds / 1000);
-    const hours = Math.floor(totalSeconds / 3600);
-    const minutes = Math.floor((totalSeconds % 3600) / 60);
-    const seconds = totalSeconds % 60;
-    
-    if (includeSeconds && hours === 0 && minutes < 1) {
-        // For very short durations, show seconds
-        return `${seconds}s`;
-    } else if (includeSeconds && hours === 0 && minutes > 0) {
-        // For short durations with minutes, show minutes and seconds
-        return `${minutes}m${seconds}s`;
-    } else if (hours > 0 && minutes > 0) {
-        return `${hours}h${minutes}m`;
-    } else if (hours > 0) {
-        return `${hours}h`;
-    } else if (minutes > 0) {
-        return `${minutes}m`;
-    } else if (includeSeconds && seconds > 0) {
-        return `${seconds}s`;
-    } else {
-        return '';
-    }
+function getChecklistProgress(checklists: ClickUpChecklist[] = []): { resolved: number; total: number } {
+    const items = checklists.flatMap(checklist => checklist.items);
+    return { resolved: items.filter(item => item.resolved).length, total: items.length };
+}
+
+/**
+ * Check whether anything shown for a task differs between two versions of it
+ */
+function hasTaskChanged(previous: ClickUpTask, next: ClickUpTask): boolean {
+    return previous.date_updated !== next.date_updated
+        || previous.name !== next.name
+        || previous.status?.status !== next.status?.status
+        || previous.timeTracked !== next.timeTracked
+        || previous.time_estimate !== next.time_estimate
+        || getChecklistProgress(previous.checklists).resolved !== getChecklistProgress(next.checklists).resolved
+        || getChecklistProgress(previous.checklists).total !== getChecklistProgress(next.checklists).total
+        || !!previous.isCurrentlyTracked !== !!next.isCurrentlyTracked;
 }
 
 export class ClickUpTaskItem extends vscode.TreeItem {
+    // Subtasks shown under this item
+    childNodes: TaskNode[] = [];
+    // The task of the checked out git branch
+    isActive: boolean = false;
+
     constructor(
-        public readonly task: ClickUpTask | null,
+        public task: ClickUpTask | null,
         label: string,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState
+        public collapsibleState: vscode.TreeItemCollapsibleState,
+        // A parent that is not in progress, shown dimmed because one of its subtasks is
+        public readonly isContext: boolean = false
     ) {
         super(label, collapsibleState);
         
-            if (task) {
-            const timeFormatted = task.timeTracked ? formatTime(task.timeTracked) : '';
-            const statusText = task.status?.status || 'Unknown';
-            const trackingIndicator = task.isCurrentlyTracked ? ' (Recording)' : '';
-            
-            this.tooltip = `${task.name}\nStatus: ${statusText}${timeFormatted ? `\nTime Tracked: ${timeFormatted}` : ''}${task.isCurrentlyTracked ? '\nCurrently recording time' : ''}\n${task.url}\n\nClick: Copy task ID\nRight-click: ${task.isCurrentlyTracked ? 'Stop' : 'Start'} time tracking`;
-            this.description = statusText + trackingIndicator;
-            
-            // Use different context value and icon for currently tracked task
-            if (task.isCurrentlyTracked) {
-                this.contextValue = 'clickupTaskTracked';
-                // Show red circle icon when currently tracked
-                this.iconPath = new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor('errorForeground'));
-            } else {
-                this.contextValue = 'clickupTask';
-                // No icon when not tracked
-            }
-            
-            // Set command for normal click to copy task ID
-            this.command = {
-                command: 'clickupTasks.copyTaskIdFromItem',
-                title: 'Copy Task ID',
-                arguments: [this]
-            };
+        if (task) {
+            this.update(task, label);
+        }
+    }
+
+    /**
+     * Update the item in place, so the same element can be passed to onDidChangeTreeData
+     * @param task The (possibly changed) task
+     * @param label The new label
+     * @param isActive Whether this is the task of the checked out git branch
+     */
+    update(task: ClickUpTask, label: string, isActive: boolean = false): void {
+        this.task = task;
+        this.label = label;
+        this.isActive = isActive;
+
+        const timeFormatted = task.timeTracked ? formatTime(task.timeTracked) : '';
+        const statusText = task.status?.status || 'Unknown';
+
+        // Set command for normal click to copy task ID
+        this.command = {
+            command: 'clickupTasks.copyTaskIdFromItem',
+            title: 'Copy Task ID',
+            arguments: [this]
+        };
+
+        if (this.isContext) {
+            this.label = task.name;
+            this.tooltip = `${task.name}\nStatus: ${statusText}\nParent task (not in progress)\n${task.url}\n\nClick: Copy task ID`;
+            this.description = statusText;
+            this.contextValue = 'clickupTaskContext';
+            this.iconPath = new vscode.ThemeIcon('circle-outline', new vscode.ThemeColor('disabledForeground'));
+            // The label is dimmed by ContextTaskDecorationProvider
+            this.resourceUri = vscode.Uri.from({ scheme: CONTEXT_TASK_SCHEME, path: `/${task.id}` });
+            return;
+        }
+
+        const trackingIndicator = task.isCurrentlyTracked ? ' (Recording)' : '';
+        
+        this.tooltip = `${task.name}\nStatus: ${statusText}${timeFormatted ? `\nTime Tracked: ${timeFormatted}` : ''}${task.isCurrentlyTracked ? '\nCurrently recording time' : ''}${isActive ? '\nTask of the current git branch' : ''}\n${task.url}\n\nClick: Copy task ID\nRight-click: ${task.isCurrentlyTracked ? 'Stop' : 'Start'} time tracking`;
+        this.description = statusText + trackingIndicator;
+        
+        // Use different context value and icon for currently tracked task
+        if (task.isCurrentlyTracked) {
+            this.contextValue = 'clickupTaskTracked';
+            // Show red circle icon when currently tracked
+            this.iconPath = new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor('errorForeground'));
+        } else if (isActive) {
+            this.contextValue = 'clickupTask';
+            this.iconPath = new vscode.ThemeIcon('git-branch', new vscode.ThemeColor('charts.blue'));
+        } else {
+            this.contextValue = 'clickupTask';
+            // No icon when not tracked
+            this.iconPath = undefined;
+        }
+
+        // The label of the current branch's task is highlighted by TaskDecorationProvider
+        this.resourceUri = isActive ? vscode.Uri.from({ scheme: ACTIVE_TASK_SCHEME, path: `/${task.id}` }) : undefined;
+    }
+}
+
+/**
+ * Dims the labels of context parent tasks (see ClickUpTaskItem.isContext) and highlights
+ * the task of the current git branch (see ClickUpTaskItem.isActive)
+ */
+export class TaskDecorationProvider implements vscode.FileDecorationProvider {
+    provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        if (uri.scheme === CONTEXT_TASK_SCHEME) {
+            return new vscode.FileDecoration(undefined, 'Not in progress', new vscode.ThemeColor('disabledForeground'));
         }
+        if (uri.scheme === ACTIVE_TASK_SCHEME) {
+            return new vscode.FileDecoration(undefined, 'Current branch', new vscode.ThemeColor('charts.blue'));
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Collapsible group node (space, list, status, ...) when clickupTasks.groupBy is set
+ */
+export class ClickUpGroupItem extends vscode.TreeItem {
+    constructor(
+        mode: GroupByMode,
+        public readonly group: TaskGroup
+    ) {
+        super(group.label, vscode.TreeItemCollapsibleState.Expanded);
+        // Stable ID so the expanded/collapsed state survives refreshes
+        this.id = `group:${mode}:${group.key}`;
+        this.description = String(group.tasks.length);
+        this.tooltip = `${group.label}: ${group.tasks.length} task${group.tasks.length === 1 ? '' : 's'}`;
+        this.contextValue = 'clickupGroup';
+    }
+}
+
+/**
+ * Collapsed node under a task that lists the task's time entries when expanded
+ */
+export class ClickUpTimeEntriesItem extends vscode.TreeItem {
+    constructor(public readonly task: ClickUpTask) {
+        super('Time Entries', vscode.TreeItemCollapsibleState.Collapsed);
+        // Stable ID so the expanded/collapsed state survives redraws
+        this.id = `timeEntries:${task.id}`;
+        this.iconPath = new vscode.ThemeIcon('history');
+        this.contextValue = 'clickupTimeEntries';
+    }
+}
+
+/**
+ * One time entry of a task: when, how long, description and tags
+ */
+export class ClickUpTimeEntryItem extends vscode.TreeItem {
+    constructor(
+        public readonly entry: ClickUpTimeEntry,
+        public readonly task: ClickUpTask
+    ) {
+        const running = entry.end === undefined;
+        const start = formatDateTime(entry.start);
+        // Only repeat the date for the end when it differs from the start's
+        const end = running ? 'now' : formatDateTime(entry.end!).replace(`${start.slice(0, 10)} `, '');
+        super(`${start} – ${end}`, vscode.TreeItemCollapsibleState.None);
+
+        this.id = `timeEntry:${entry.id}`;
+        const duration = formatTime(entry.duration) || '0m';
+        this.description = [duration, entry.description, ...entry.tags.map(tag => `#${tag}`)].filter(Boolean).join(' · ');
+        this.tooltip = [
+            `${start} – ${end}${running ? ' (running)' : ''}`,
+            `Duration: ${duration}`,
+            entry.description ? `Description: ${entry.description}` : '',
+            entry.tags.length > 0 ? `Tags: ${entry.tags.join(', ')}` : '',
+            entry.billable ? 'Billable' : ''
+        ].filter(Boolean).join('\n');
+        this.iconPath = new vscode.ThemeIcon(running ? 'record' : 'clock');
+        // The start and end of a running entry can't be edited
+        this.contextValue = running ? 'clickupTimeEntryRunning' : 'clickupTimeEntry';
+    }
+}
+
+/**
+ * A checklist of a task, with its progress
+ */
+export class ClickUpChecklistItem extends vscode.TreeItem {
+    constructor(
+        public readonly checklist: ClickUpChecklist,
+        public readonly task: ClickUpTask
+    ) {
+        super(checklist.name, vscode.TreeItemCollapsibleState.Expanded);
+        // Stable ID so the expanded/collapsed state survives redraws
+        this.id = `checklist:${checklist.id}`;
+        const { resolved, total } = getChecklistProgress([checklist]);
+        this.description = `${resolved}/${total}`;
+        this.iconPath = new vscode.ThemeIcon('checklist');
+        this.contextValue = 'clickupChecklist';
+    }
+}
+
+/**
+ * One checklist item; checking or unchecking it resolves it in ClickUp
+ * (see ClickUpTasksProvider.setChecklistItemResolved)
+ */
+export class ClickUpChecklistEntryItem extends vscode.TreeItem {
+    constructor(
+        public readonly item: ClickUpChecklist['items'][number],
+        public readonly checklist: ClickUpChecklist,
+        public readonly task: ClickUpTask
+    ) {
+        super(item.name, vscode.TreeItemCollapsibleState.None);
+        this.id = `checklistItem:${item.id}`;
+        this.checkboxState = item.resolved ? vscode.TreeItemCheckboxState.Checked : vscode.TreeItemCheckboxState.Unchecked;
+        this.contextValue = 'clickupChecklistEntry';
     }
 }
 
-export class ClickUpTasksProvider implements vscode.TreeDataProvider<ClickUpTaskItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<ClickUpTaskItem | undefined | null | void> = new vscode.EventEmitter<ClickUpTaskItem | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<ClickUpTaskItem | undefined | null | void> = this._onDidChangeTreeData.event;
+export type ClickUpTreeItem = ClickUpTaskItem | ClickUpGroupItem | ClickUpTimeEntriesItem | ClickUpTimeEntryItem
+    | ClickUpChecklistItem | ClickUpChecklistEntryItem;
+
+export class ClickUpTasksProvider implements vscode.TreeDataProvider<ClickUpTreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<ClickUpTreeItem | undefined | null | void> = new vscode.EventEmitter<ClickUpTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<ClickUpTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+    // Fired when a background refresh starts or finishes (used for the "updating" / "last synced" indicator)
+    private _onDidChangeSyncStatus: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChangeSyncStatus: vscode.Event<void> = this._onDidChangeSyncStatus.event;
+    // Fired with the fresh task whenever updateTask has fetched it (used by the task details panels)
+    private _onDidUpdateTask: vscode.EventEmitter<ClickUpTask> = new vscode.EventEmitter<ClickUpTask>();
+    readonly onDidUpdateTask: vscode.Event<ClickUpTask> = this._onDidUpdateTask.event;
 
     private tasks: ClickUpTask[] = [];
-    private loading: boolean = false;
+    // Parents of in-progress subtasks that are not in progress themselves, by task ID
+    private parentTasks: Map<string, ClickUpTask> = new Map();
+    // Task of the checked out git branch, and the task itself when it isn't in `tasks`
+    private activeTaskId: string | undefined;
+    private activeTask: ClickUpTask | undefined;
+    // Time entries by task ID, loaded when a task's "Time Entries" node is expanded
+    private timeEntries: Map<string, ClickUpTimeEntry[]> = new Map();
+    // Tree items by task ID; items are reused so single items can be refreshed
+    private items: Map<string, ClickUpTaskItem> = new Map();
+    // Parts of the workspace that failed to load during the last refresh
+    private failures: string[] = [];
+    // True while a refresh is running; cached tasks stay visible meanwhile
+    private updating: boolean = false;
+    // Timestamp of the last successful refresh, undefined until tasks have been loaded once
+    private lastSynced: number | undefined;
+    // Incremented on every refresh so results of a superseded refresh are dropped
+    private refreshGeneration: number = 0;
     private updateInterval: NodeJS.Timeout | undefined;
 
-    constructor(private clickUpService: ClickUpService) {
+    constructor(private clickUpService: ClickUpService, private cache: TaskCache) {
+        // Draw the last known tasks right away; the first refresh revalidates them
+        const cached = this.cache.load();
+        if (cached) {
+            this.tasks = cached.tasks;
+            (cached.parentTasks || []).forEach(task => this.parentTasks.set(task.id, task));
+            this.lastSynced = cached.lastSynced;
+        }
+
         // Update display every second to show live timer updates
         this.updateInterval = setInterval(() => {
-            // Only update if we have tasks and at least one is being tracked
-            if (this.tasks.length > 0 && this.tasks.some(task => task.isCurrentlyTracked)) {
-                this._onDidChangeTreeData.fire();
-            }
+            // Only redraw the items of tasks that are being tracked
+            this.tasks
+                .filter(task => task.isCurrentlyTracked)
+                .forEach(task => this.fireTaskChanged(task.id));
         }, 1000);
     }
 
@@ -94,26 +275,300 @@ export class ClickUpTasksProvider implements vscode.TreeDataProvider<ClickUpTask
         if (this.updateInterval) {
             clearInterval(this.updateInterval);
         }
+        this._onDidChangeSyncStatus.dispose();
+        this._onDidUpdateTask.dispose();
     }
 
-    refresh(): void {
-        this.loading = true;
+    /**
+     * Redraw the tree without fetching (e.g. after the grouping mode changed)
+     */
+    redraw(): void {
         this._onDidChangeTreeData.fire();
-        
-        this.clickUpService.getInProgressTasks()
-            .then(tasks => {
-                this.tasks = tasks;
-                this.loading = false;
-                this._onDidChangeTreeData.fire();
-            })
-            .catch(error => {
-                console.error('ClickUpTasksProvider: Error loading tasks', error);
-                this.loading = false;
-                this._onDidChangeTreeData.fire();
-                // Use status bar message for auto-dismiss since we can't import the helper here easily
-                vscode.window.setStatusBarMessage(`Failed to load ClickUp tasks: ${error.message}`, 5000);
-                vscode.window.showErrorMessage(`Failed to load ClickUp tasks: ${error.message}`);
+    }
+
+    /**
+     * @returns Whether a refresh is running and when tasks were last loaded successfully
+     */
+    getSyncStatus(): { updating: boolean; lastSynced: number | undefined } {
+        return { updating: this.updating, lastSynced: this.lastSynced };
+    }
+
+    /**
+     * Forget cached tasks (e.g. after the API token or team changed)
+     */
+    async clearCache(): Promise<void> {
+        this.tasks = [];
+        this.parentTasks.clear();
+        this.items.clear();
+        this.failures = [];
+        this.lastSynced = undefined;
+        this.clickUpService.resetSyncState();
+        await this.cache.clear();
+        this._onDidChangeTreeData.fire();
+        this._onDidChangeSyncStatus.fire();
+    }
+
+    /**
+     * Refresh tasks in the background
+     * Only tasks updated since the last sync are fetched, unless `full` is set or the service
+     * needs a full fetch (first refresh, periodic resync)
+     * @param full Fetch all in-progress tasks instead of only the changes
+     */
+    refresh(full: boolean = false): void {
+        const generation = ++this.refreshGeneration;
+        this.setUpdating(true);
+
+        const incremental = !full && this.lastSynced !== undefined && this.clickUpService.canSyncIncrementally();
+        const request = incremental ? this.refreshChanges(generation) : this.refreshAll(generation);
+
+        request.catch(error => {
+            if (generation !== this.refreshGeneration) {
+                return;
+            }
+            console.error('ClickUpTasksProvider: Error loading tasks', error);
+            // Keep showing the previous tasks; they are stale but better than an empty tree
+            this.failures = [];
+            this.setUpdating(false);
+            this._onDidChangeTreeData.fire();
+            // Use status bar message for auto-dismiss since we can't import the helper here easily
+            vscode.window.setStatusBarMessage(`Failed to load ClickUp tasks: ${error.message}`, 5000);
+            vscode.window.showErrorMessage(`Failed to load ClickUp tasks: ${error.message}`);
+        });
+    }
+
+    private async refreshAll(generation: number): Promise<void> {
+        const result = await this.clickUpService.getInProgressTasks();
+        if (generation !== this.refreshGeneration) {
+            // A newer refresh was started meanwhile, its result wins
+            return;
+        }
+
+        this.tasks = result.tasks;
+        this.failures = result.failures;
+        this.timeEntries.clear();
+        await Promise.all([this.loadParentTasks(), this.loadActiveTask()]);
+        if (generation !== this.refreshGeneration) {
+            return;
+        }
+        this.lastSynced = Date.now();
+        // Only persist complete results so a partial load never replaces the last good list
+        this.saveCache();
+        this.setUpdating(false);
+        this._onDidChangeTreeData.fire();
+
+        if (result.failures.length > 0) {
+            vscode.window.setStatusBarMessage(`ClickUp tasks: partial results, ${result.failures.length} part(s) of your workspace failed to load`, 5000);
+        }
+    }
+
+    private async refreshChanges(generation: number): Promise<void> {
+        let changes: TaskChangesResult | null;
+        try {
+            changes = await this.clickUpService.getInProgressTaskChanges(this.tasks);
+        } catch (error: any) {
+            console.error('ClickUpTasksProvider: Incremental refresh failed, falling back to full refresh', error);
+            changes = null;
+        }
+
+        if (!changes) {
+            return this.refreshAll(generation);
+        }
+        if (generation !== this.refreshGeneration) {
+            return;
+        }
+
+        this.applyChanges(changes);
+        const [parentsLoaded, activeTaskLoaded] = await Promise.all([this.loadParentTasks(), this.loadActiveTask()]);
+        if (generation !== this.refreshGeneration) {
+            return;
+        }
+        if (parentsLoaded || activeTaskLoaded) {
+            // New context parents or a pinned branch task change the tree structure
+            this._onDidChangeTreeData.fire();
+        }
+        this.lastSynced = Date.now();
+        this.saveCache();
+        this.setUpdating(false);
+    }
+
+    /**
+     * Merge an incremental sync into the task list and redraw only what changed
+     */
+    private applyChanges(changes: TaskChangesResult): void {
+        // Time entries are reloaded when a task's entries are next shown
+        this.timeEntries.clear();
+        let structureChanged = false;
+        const changedTaskIds = new Set<string>();
+        const groupBy = this.getGroupByMode();
+
+        // Tasks that moved out of an in-progress status or were unassigned
+        changes.removedTaskIds.forEach(taskId => {
+            const taskIndex = this.tasks.findIndex(t => t.id === taskId);
+            if (taskIndex >= 0) {
+                this.tasks.splice(taskIndex, 1);
+                structureChanged = true;
+            }
+        });
+
+        changes.changed.forEach(task => {
+            const taskIndex = this.tasks.findIndex(t => t.id === task.id);
+            if (taskIndex < 0) {
+                this.tasks.push(task);
+                structureChanged = true;
+                return;
+            }
+
+            const existingTask = this.tasks[taskIndex];
+            if (existingTask.space && !task.space) {
+                task.space = existingTask.space;
+            }
+            if (hasTaskChanged(existingTask, task)) {
+                // A task that moves to another group changes the tree structure
+                if (getGroupKey(existingTask, groupBy) !== getGroupKey(task, groupBy)) {
+                    structureChanged = true;
+                }
+                this.tasks[taskIndex] = task;
+                changedTaskIds.add(task.id);
+            }
+        });
+
+        // The tracked task may have changed without the task itself being updated
+        this.tasks.forEach(task => {
+            const isTracked = changes.currentlyTrackedTaskId !== null && String(task.id) === changes.currentlyTrackedTaskId;
+            if (!!task.isCurrentlyTracked !== isTracked) {
+                task.isCurrentlyTracked = isTracked;
+                changedTaskIds.add(task.id);
+            }
+        });
+
+        if (structureChanged) {
+            this._onDidChangeTreeData.fire();
+        } else {
+            changedTaskIds.forEach(taskId => this.fireTaskChanged(taskId));
+        }
+    }
+
+    /**
+     * The tasks shown in the tree: the in-progress tasks and the current branch's task
+     */
+    getTasks(): ClickUpTask[] {
+        return this.activeTask && !this.tasks.some(task => task.id === this.activeTask!.id)
+            ? [this.activeTask, ...this.tasks]
+            : [...this.tasks];
+    }
+
+    /**
+     * Set the task of the checked out git branch, fetching it if it isn't in progress
+     * @param taskId The task ID, or undefined if the branch doesn't name a task
+     */
+    async setActiveTaskId(taskId: string | undefined): Promise<void> {
+        this.activeTaskId = taskId;
+        this.activeTask = undefined;
+        this._onDidChangeTreeData.fire();
+        if (await this.loadActiveTask()) {
+            this._onDidChangeTreeData.fire();
+        }
+    }
+
+    /**
+     * Fetch the active task when it isn't one of the in-progress tasks
+     * @returns True if a task was fetched
+     */
+    private async loadActiveTask(): Promise<boolean> {
+        const taskId = this.activeTaskId;
+        if (!taskId || this.tasks.some(task => task.id === taskId)) {
+            this.activeTask = undefined;
+            return false;
+        }
+
+        try {
+            const task = await this.clickUpService.getTask(taskId);
+            // The branch may have changed while fetching
+            if (this.activeTaskId !== taskId) {
+                return false;
+            }
+            this.activeTask = task || undefined;
+            return !!task;
+        } catch (error) {
+            console.error(`ClickUpTasksProvider: Error loading task ${taskId} of the current branch`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Fetch parents of in-progress subtasks that are not in progress themselves, so the
+     * subtasks can be shown under them, and drop parents that are no longer needed
+     * @returns True if a parent was fetched
+     */
+    private async loadParentTasks(): Promise<boolean> {
+        // Drop parents no in-progress task points to anymore
+        const neededParentIds = new Set<string>();
+        this.tasks.forEach(task => {
+            let parentId = task.parent;
+            while (parentId && !neededParentIds.has(parentId) && neededParentIds.size <= this.parentTasks.size) {
+                neededParentIds.add(parentId);
+                parentId = this.parentTasks.get(parentId)?.parent;
+            }
+        });
+        Array.from(this.parentTasks.keys())
+            .filter(taskId => !neededParentIds.has(taskId))
+            .forEach(taskId => this.parentTasks.delete(taskId));
+
+        const knownTasks = this.getKnownTasks();
+        let missingParentIds = getMissingParentIds(this.tasks, knownTasks);
+        let fetchedAny = false;
+
+        // Subtasks can be nested, so keep walking up for a few levels
+        for (let depth = 0; missingParentIds.length > 0 && depth < MAX_PARENT_FETCH_DEPTH; depth++) {
+            const parents = await Promise.all(missingParentIds.map(taskId =>
+                this.clickUpService.getTask(taskId).catch(error => {
+                    console.error(`ClickUpTasksProvider: Error loading parent task ${taskId}`, error);
+                    return null;
+                })
+            ));
+            const fetchedParents = parents.filter((task): task is ClickUpTask => task !== null);
+            fetchedParents.forEach(task => {
+                this.parentTasks.set(task.id, task);
+                knownTasks.set(task.id, task);
             });
+            fetchedAny = fetchedAny || fetchedParents.length > 0;
+            missingParentIds = getMissingParentIds(fetchedParents, knownTasks);
+        }
+
+        return fetchedAny;
+    }
+
+    /**
+     * In-progress tasks and context parents by ID
+     */
+    private getKnownTasks(): Map<string, ClickUpTask> {
+        const knownTasks = new Map(this.parentTasks);
+        this.tasks.forEach(task => knownTasks.set(task.id, task));
+        return knownTasks;
+    }
+
+    private fireTaskChanged(taskId: string): void {
+        const item = this.items.get(taskId);
+        if (item) {
+            this._onDidChangeTreeData.fire(item);
+        } else {
+            this._onDidChangeTreeData.fire();
+        }
+    }
+
+    private setUpdating(updating: boolean): void {
+        this.updating = updating;
+        this._onDidChangeSyncStatus.fire();
+        // Without any tasks loaded yet the tree shows "Loading...", so it needs redrawing too
+        if (this.lastSynced === undefined) {
+            this._onDidChangeTreeData.fire();
+        }
+    }
+
+    private saveCache(): void {
+        if (this.lastSynced !== undefined && this.failures.length === 0) {
+            this.cache.save(this.tasks, this.lastSynced, Array.from(this.parentTasks.values()));
+        }
     }
 
     /**
@@ -121,6 +576,8 @@ export class ClickUpTasksProvider implements vscode.TreeDataProvider<ClickUpTask
      * @param taskId The task ID to update
      */
     async updateTask(taskId: string): Promise<void> {
+        // Tracking, logging or trimming time changes the entries, so they are reloaded on redraw
+        this.timeEntries.delete(taskId);
         try {
             // Fetch the updated task from ClickUp
             const updatedTask = await this.clickUpService.getTask(taskId);
@@ -128,13 +585,20 @@ export class ClickUpTasksProvider implements vscode.TreeDataProvider<ClickUpTask
                 // Task not found, might have been deleted or moved
                 // Remove it from our list
                 this.tasks = this.tasks.filter(t => t.id !== taskId);
+                this.saveCache();
                 this._onDidChangeTreeData.fire();
                 return;
             }
+            this._onDidUpdateTask.fire(updatedTask);
 
             // Find and update the task in our list
             const taskIndex = this.tasks.findIndex(t => t.id === taskId);
-            if (taskIndex >= 0) {
+            if (taskIndex >= 0 && !(await this.clickUpService.isTaskInProgress(updatedTask))) {
+                // Moved out of an in-progress status or unassigned
+                this.tasks.splice(taskIndex, 1);
+                this.saveCache();
+                this._onDidChangeTreeData.fire();
+            } else if (taskIndex >= 0) {
                 // Preserve list and space info from existing task (Get Task API might not return it)
                 const existingTask = this.tasks[taskIndex];
                 updatedTask.list = existingTask.list;
@@ -146,7 +610,14 @@ export class ClickUpTasksProvider implements vscode.TreeDataProvider<ClickUpTask
                 // This handles both starting (true) and stopping (false) scenarios
                 updatedTask.isCurrentlyTracked = this.clickUpService.isInternallyTracked(taskId);
                 this.tasks[taskIndex] = updatedTask;
-                this._onDidChangeTreeData.fire();
+                this.saveCache();
+                // A task that moves to another group changes the tree structure
+                const groupBy = this.getGroupByMode();
+                if (getGroupKey(existingTask, groupBy) !== getGroupKey(updatedTask, groupBy)) {
+                    this._onDidChangeTreeData.fire();
+                } else {
+                    this.fireTaskChanged(taskId);
+                }
             } else {
                 // Task not in our list - might have changed status or assignment
                 // Don't add it here, let full refresh handle it
@@ -154,82 +625,257 @@ export class ClickUpTasksProvider implements vscode.TreeDataProvider<ClickUpTask
         } catch (error: any) {
             console.error('ClickUpTasksProvider: Error updating task', error);
             // On error, fall back to full refresh
-            this.refresh();
+            this.refresh(true);
         }
     }
 
-    getTreeItem(element: ClickUpTaskItem): vscode.TreeItem {
+    getTreeItem(element: ClickUpTreeItem): vscode.TreeItem {
+        // Items are redrawn in place (e.g. every second for the live timer), so rebuild the label
+        if (element instanceof ClickUpTaskItem && element.task && !element.isContext) {
+            const task = this.tasks.find(t => t.id === element.task!.id) || element.task;
+            element.update(task, this.getTaskLabel(task), task.id === this.activeTaskId);
+        }
         return element;
     }
 
-    getChildren(element?: ClickUpTaskItem): Thenable<ClickUpTaskItem[]> {
-        if (this.loading) {
+    getChildren(element?: ClickUpTreeItem): Thenable<ClickUpTreeItem[]> {
+        // Only show the blank loading state when there is nothing (not even cached tasks) to draw
+        if (this.updating && this.lastSynced === undefined) {
             const loadingItem = new ClickUpTaskItem(null, 'Loading...', vscode.TreeItemCollapsibleState.None);
             return Promise.resolve([loadingItem]);
         }
 
         if (!element) {
+            // Warn at the top of the tree when some spaces or lists could not be loaded
+            const pinnedItems: ClickUpTaskItem[] = [];
+            if (this.failures.length > 0) {
+                const partialItem = new ClickUpTaskItem(null, `Partial results (${this.failures.length} failed to load)`, vscode.TreeItemCollapsibleState.None);
+                partialItem.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+                partialItem.tooltip = `Some tasks may be missing. Failed to load:\n${this.failures.join('\n')}`;
+                pinnedItems.push(partialItem);
+            }
+
+            // Drop items of tasks that are gone
+            const taskIds = new Set(this.tasks.map(task => task.id));
+            Array.from(this.items.keys())
+                .filter(taskId => !taskIds.has(taskId))
+                .forEach(taskId => this.items.delete(taskId));
+
+            // The current branch's task is pinned to the top when it isn't in progress
+            if (this.activeTask && !taskIds.has(this.activeTask.id)) {
+                const activeTask = this.activeTask;
+                activeTask.isCurrentlyTracked = this.clickUpService.isInternallyTracked(activeTask.id);
+                const activeItem = new ClickUpTaskItem(activeTask, activeTask.name, vscode.TreeItemCollapsibleState.Collapsed);
+                activeItem.update(activeTask, this.getTaskLabel(activeTask), true);
+                pinnedItems.push(activeItem);
+            }
+
             // Root level - return all tasks
             if (this.tasks.length === 0) {
                 const emptyItem = new ClickUpTaskItem(null, 'No "In Progress" tasks assigned to you', vscode.TreeItemCollapsibleState.None);
-                return Promise.resolve([emptyItem]);
+                return Promise.resolve([...pinnedItems, emptyItem]);
             }
 
+            const groupBy = this.getGroupByMode();
+            if (groupBy !== 'none') {
+                return Promise.resolve([
+                    ...pinnedItems,
+                    ...groupTasks(this.tasks, groupBy).map(group => new ClickUpGroupItem(groupBy, group))
+                ]);
+            }
+
+            return Promise.resolve([
+                ...pinnedItems,
+                ...buildTaskHierarchy(this.tasks, this.getKnownTasks()).map(node => this.getNodeItem(node))
+            ]);
+        }
+
+        if (element instanceof ClickUpGroupItem) {
             return Promise.resolve(
-                this.tasks.map(task => {
-                    // Format: "Task Name [internal_timer+time_spent/time_estimate]"
-                    // Example: "[2m30s+5m/2h]"
-                    let timeDisplay = '';
-                    
-                    // Get internal timer elapsed time if task is currently tracked
-                    const internalElapsed = task.isCurrentlyTracked 
-                        ? this.clickUpService.getInternalTimerElapsed(task.id) 
-                        : 0;
-                    const hasInternalTimer = internalElapsed > 0;
-                    
-                    const hasTracked = task.timeTracked && task.timeTracked > 0;
-                    const hasEstimate = task.time_estimate && task.time_estimate > 0;
-                    
-                    // Build the time display string
-                    if (hasInternalTimer || hasTracked || hasEstimate) {
-                        const parts: string[] = [];
-                        
-                        // Internal timer (with seconds for precision)
-                        if (hasInternalTimer) {
-                            parts.push(formatTime(internalElapsed, true));
-                        }
-                        
-                        // Time spent from API
-                        if (hasTracked) {
-                            const trackedFormatted = formatTime(task.timeTracked!);
-                            if (hasInternalTimer) {
-                                parts.push(`+${trackedFormatted}`);
-                            } else {
-                                parts.push(trackedFormatted);
-                            }
-                        } else if (hasInternalTimer) {
-                            // If we have internal timer but no tracked time, show +0m
-                            parts.push('+0m');
-                        }
-                        
-                        // Time estimate
-                        if (hasEstimate) {
-                            const estimateFormatted = formatTime(task.time_estimate!);
-                            parts.push(`/${estimateFormatted}`);
-                        }
-                        
-                        timeDisplay = `[${parts.join('')}]`;
-                    }
-                    
-                    const label = timeDisplay 
-                        ? `${task.name} ${timeDisplay}`
-                        : task.name;
-                    return new ClickUpTaskItem(task, label, vscode.TreeItemCollapsibleState.None);
-                })
+                buildTaskHierarchy(element.group.tasks, this.getKnownTasks()).map(node => this.getNodeItem(node))
             );
         }
 
-        return Promise.resolve([]);
+        if (element instanceof ClickUpTimeEntriesItem) {
+            return this.getTimeEntryItems(element.task);
+        }
+
+        if (element instanceof ClickUpChecklistItem) {
+            const items = [...element.checklist.items].sort((a, b) => (a.orderindex ?? 0) - (b.orderindex ?? 0));
+            return Promise.resolve(items.map(item => new ClickUpChecklistEntryItem(item, element.checklist, element.task)));
+        }
+
+        if (element instanceof ClickUpTaskItem && element.task && !element.isContext) {
+            // Subtasks, then the task's checklists and its own time entries
+            const task = element.task;
+            return Promise.resolve([
+                ...element.childNodes.map(node => this.getNodeItem(node)),
+                ...(task.checklists || [])
+                    .filter(checklist => checklist.items.length > 0)
+                    .map(checklist => new ClickUpChecklistItem(checklist, task)),
+                new ClickUpTimeEntriesItem(task)
+            ]);
+        }
+
+        // Subtasks of a context parent
+        return Promise.resolve(element instanceof ClickUpTaskItem ? element.childNodes.map(node => this.getNodeItem(node)) : []);
+    }
+
+    private async getTimeEntryItems(task: ClickUpTask): Promise<ClickUpTreeItem[]> {
+        let entries = this.timeEntries.get(task.id);
+        if (!entries) {
+            try {
+                entries = await this.clickUpService.getTaskTimeEntries(task.id);
+                this.timeEntries.set(task.id, entries);
+            } catch (error: any) {
+                console.error(`ClickUpTasksProvider: Error loading time entries of task ${task.id}`, error);
+                const errorItem = new ClickUpTaskItem(null, 'Failed to load time entries', vscode.TreeItemCollapsibleState.None);
+                errorItem.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+                errorItem.tooltip = error.message;
+                return [errorItem];
+            }
+        }
+
+        if (entries.length === 0) {
+            return [new ClickUpTaskItem(null, 'No time entries', vscode.TreeItemCollapsibleState.None)];
+        }
+        return entries.map(entry => new ClickUpTimeEntryItem(entry, task));
+    }
+
+    /**
+     * Check or uncheck a checklist item in ClickUp
+     * The tree shows the new state right away and goes back to the old one if the request fails
+     */
+    async setChecklistItemResolved(item: ClickUpChecklistEntryItem, resolved: boolean): Promise<void> {
+        const task = this.tasks.find(t => t.id === item.task.id)
+            || (this.activeTask?.id === item.task.id ? this.activeTask : item.task);
+        const checklistItem = task.checklists
+            ?.find(checklist => checklist.id === item.checklist.id)
+            ?.items.find(entry => entry.id === item.item.id);
+        if (!checklistItem || checklistItem.resolved === resolved) {
+            return;
+        }
+
+        checklistItem.resolved = resolved;
+        this.redrawTask(task.id);
+        try {
+            await this.clickUpService.setChecklistItemResolved(item.checklist.id, item.item.id, resolved);
+        } catch (error) {
+            checklistItem.resolved = !resolved;
+            this.redrawTask(task.id);
+            throw error;
+        }
+        this.saveCache();
+    }
+
+    /**
+     * Redraw a task and its children, including the pinned branch task
+     */
+    private redrawTask(taskId: string): void {
+        if (this.tasks.some(task => task.id === taskId)) {
+            this.fireTaskChanged(taskId);
+        } else {
+            this._onDidChangeTreeData.fire();
+        }
     }
-}
 
+    /**
+     * Reload a task's time entries and totals, e.g. after an entry was edited or deleted
+     */
+    async refreshTimeEntries(taskId: string): Promise<void> {
+        this.timeEntries.delete(taskId);
+        if (this.tasks.some(task => task.id === taskId)) {
+            // Redrawing the task also redraws its time entries
+            await this.updateTask(taskId);
+        } else {
+            // The pinned branch task isn't kept up to date by updateTask
+            await this.loadActiveTask();
+            this._onDidChangeTreeData.fire();
+        }
+    }
+
+    private getNodeItem(node: TaskNode): ClickUpTaskItem {
+        // Every in-progress task can be expanded to show its time entries
+        const collapsibleState = node.children.length > 0
+            ? vscode.TreeItemCollapsibleState.Expanded
+            : node.isContext ? vscode.TreeItemCollapsibleState.None : vscode.TreeItemCollapsibleState.Collapsed;
+        // Context parents can show up in several groups, so they are never reused
+        const item = node.isContext
+            ? new ClickUpTaskItem(node.task, node.task.name, collapsibleState, true)
+            : this.getTaskItem(node.task);
+        item.childNodes = node.children;
+        item.collapsibleState = collapsibleState;
+        return item;
+    }
+
+    private getGroupByMode(): GroupByMode {
+        return vscode.workspace.getConfiguration('clickupTasks').get<GroupByMode>('groupBy', 'none');
+    }
+
+    private getTaskItem(task: ClickUpTask): ClickUpTaskItem {
+        const label = this.getTaskLabel(task);
+        let item = this.items.get(task.id);
+        if (!item) {
+            item = new ClickUpTaskItem(task, label, vscode.TreeItemCollapsibleState.None);
+            this.items.set(task.id, item);
+        }
+        item.update(task, label, task.id === this.activeTaskId);
+        return item;
+    }
+
+    /**
+     * Format: "Task Name [internal_timer+time_spent/time_estimate]"
+     * Example: "[2m30s+5m/2h]"
+     */
+    private getTaskLabel(task: ClickUpTask): string {
+        let timeDisplay = '';
+        
+        // Get internal timer elapsed time if task is currently tracked
+        const internalElapsed = task.isCurrentlyTracked 
+            ? this.clickUpService.getInternalTimerElapsed(task.id) 
+            : 0;
+        const hasInternalTimer = internalElapsed > 0;
+        
+        const hasTracked = task.timeTracked && task.timeTracked > 0;
+        const hasEstimate = task.time_estimate && task.time_estimate > 0;
+        
+        // Build the time display string
+        if (hasInternalTimer || hasTracked || hasEstimate) {
+            const parts: string[] = [];
+            
+            // Internal timer (with seconds for precision)
+            if (hasInternalTimer) {
+                parts.push(formatTime(internalElapsed, true));
+            }
+            
+            // Time spent from API
+            if (hasTracked) {
+                const trackedFormatted = formatTime(task.timeTracked!);
+                if (hasInternalTimer) {
+                    parts.push(`+${trackedFormatted}`);
+                } else {
+                    parts.push(trackedFormatted);
+                }
+            } else if (hasInternalTimer) {
+                // If we have internal timer but no tracked time, show +0m
+                parts.push('+0m');
+            }
+            
+            // Time estimate
+            if (hasEstimate) {
+                const estimateFormatted = formatTime(task.time_estimate!);
+                parts.push(`/${estimateFormatted}`);
+            }
+            
+            timeDisplay = `[${parts.join('')}]`;
+        }
+        
+        const label = timeDisplay 
+            ? `${task.name} ${timeDisplay}`
+            : task.name;
+
+        // Checklist progress, e.g. "3/5"
+        const { resolved, total } = getChecklistProgress(task.checklists);
+        return total > 0 ? `${label} ${resolved}/${total}` : label;
+    }
+}
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { getGitApi, GitAPI, GitRepository } from './gitApi';
+import { formatCommitMessage } from './taskReference';
+
+// Default for clickupTasks.commitMessageTemplate
+export const DEFAULT_COMMIT_MESSAGE_TEMPLATE = 'CU-{id} ';
+
+/**
+ * Fills the git commit message box with a reference to the current task
+ * (see clickupTasks.commitMessageTemplate). Only an empty box, or one that still holds
+ * exactly what was filled in before, is ever changed, so typed text is never lost
+ */
+export class CommitMessagePrefiller implements vscode.Disposable {
+    private git: GitAPI | undefined;
+    // What was last put in each repository's input box
+    private prefilled: Map<GitRepository, string> = new Map();
+    private subscriptions: Map<GitRepository, vscode.Disposable> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param getTask The task to reference: the branch's task or the tracked one
+     */
+    constructor(private getTask: () => { id: string; name: string } | undefined) {}
+
+    /**
+     * Start watching repositories; does nothing if git isn't available
+     */
+    async start(): Promise<void> {
+        this.git = await getGitApi();
+        if (!this.git) {
+            return;
+        }
+
+        this.git.repositories.forEach(repository => this.watch(repository));
+        this.disposables.push(
+            this.git.onDidOpenRepository(repository => this.watch(repository)),
+            this.git.onDidCloseRepository(repository => {
+                this.subscriptions.get(repository)?.dispose();
+                this.subscriptions.delete(repository);
+                this.prefilled.delete(repository);
+            })
+        );
+    }
+
+    /**
+     * Fill (or refill) the input boxes that the user hasn't typed into
+     */
+    update(): void {
+        this.git?.repositories.forEach(repository => this.updateRepository(repository));
+    }
+
+    dispose(): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.subscriptions.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private watch(repository: GitRepository): void {
+        if (this.subscriptions.has(repository)) {
+            return;
+        }
+        // The box is cleared after a commit, which also changes the repository state
+        this.subscriptions.set(repository, repository.state.onDidChange(() => this.updateRepository(repository)));
+        this.updateRepository(repository);
+    }
+
+    private updateRepository(repository: GitRepository): void {
+        const current = repository.inputBox.value;
+        const previous = this.prefilled.get(repository);
+        if (current.trim() !== '' && current !== previous) {
+            // The user has typed something
+            return;
+        }
+
+        const message = this.getMessage();
+        if (message === current) {
+            return;
+        }
+
+        repository.inputBox.value = message;
+        this.prefilled.set(repository, message);
+    }
+
+    private getMessage(): string {
+        const config = vscode.workspace.getConfiguration('clickupTasks');
+        const task = this.getTask();
+        if (!task || !config.get<boolean>('prefillCommitMessage', true)) {
+            return '';
+        }
+        return formatCommitMessage(config.get<string>('commitMessageTemplate', DEFAULT_COMMIT_MESSAGE_TEMPLATE), task);
+    }
+}
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import { ClickUpListRef, ClickUpService, NewTaskParams } from './clickupService';
+import { parseTime } from './timeFormat';
+
+const TITLE = 'Create ClickUp Task';
+const STEPS = 8;
+
+const PRIORITIES: Array<{ label: string; priority?: number }> = [
+    { label: 'Urgent', priority: 1 },
+    { label: 'High', priority: 2 },
+    { label: 'Normal', priority: 3 },
+    { label: 'Low', priority: 4 },
+    { label: 'No Priority' }
+];
+
+// Prefilled answers, e.g. the text of a TODO comment
+export interface NewTaskDefaults {
+    name?: string;
+    description?: string;
+}
+
+export interface NewTaskInput {
+    list: ClickUpListRef;
+    params: NewTaskParams;
+    // Start time tracking once the task exists (implies an in-progress status)
+    startTracking: boolean;
+}
+
+/**
+ * Ask for everything needed to create a task: space, list, name, description, priority,
+ * estimate, assignees and whether to start working on it right away
+ * @returns The answers, or undefined if any step was cancelled
+ */
+export async function promptForNewTask(clickUpService: ClickUpService, defaults: NewTaskDefaults = {}): Promise<NewTaskInput | undefined> {
+    const title = (step: number) => `${TITLE} (${step}/${STEPS})`;
+
+    const spaces = await clickUpService.getSpaceList();
+    const space = await vscode.window.showQuickPick(
+        spaces.map(space => ({ label: space.name, space })),
+        { title: title(1), placeHolder: 'Select a space', ignoreFocusOut: true }
+    );
+    if (!space) {
+        return undefined;
+    }
+
+    const lists = await clickUpService.getListsOfSpace(space.space);
+    const list = await vscode.window.showQuickPick(
+        lists.map(list => ({ label: list.name, description: list.folder?.name, list })),
+        { title: title(2), placeHolder: 'Select a list', matchOnDescription: true, ignoreFocusOut: true }
+    );
+    if (!list) {
+        return undefined;
+    }
+
+    const name = await vscode.window.showInputBox({
+        title: title(3),
+        prompt: 'Task name',
+        value: defaults.name,
+        ignoreFocusOut: true,
+        validateInput: value => value.trim() ? undefined : 'Task name is required'
+    });
+    if (name === undefined) {
+        return undefined;
+    }
+
+    const description = await vscode.window.showInputBox({
+        title: title(4),
+        prompt: 'Description (optional, Markdown)',
+        value: defaults.description,
+        ignoreFocusOut: true
+    });
+    if (description === undefined) {
+        return undefined;
+    }
+
+    const priority = await vscode.window.showQuickPick(PRIORITIES, {
+        title: title(5),
+        placeHolder: 'Priority',
+        ignoreFocusOut: true
+    });
+    if (!priority) {
+        return undefined;
+    }
+
+    const estimate = await vscode.window.showInputBox({
+        title: title(6),
+        prompt: 'Time estimate (optional), e.g. 1h30m, 90m or 2h',
+        ignoreFocusOut: true,
+        validateInput: value => !value.trim() || parseTime(value) !== undefined ? undefined : 'Use a duration like 1h30m, 90m or 2h'
+    });
+    if (estimate === undefined) {
+        return undefined;
+    }
+
+    const [userId, members] = await Promise.all([
+        clickUpService.getUserId(),
+        clickUpService.getListMembers(list.list.id)
+    ]);
+    // Assign to me is on by default, and listed first
+    const memberItems = members
+        .map(member => ({
+            label: member.username,
+            description: member.id === userId ? '(me)' : member.email,
+            picked: member.id === userId,
+            member
+        }))
+        .sort((a, b) => Number(b.picked) - Number(a.picked));
+    const assignees = await vscode.window.showQuickPick(memberItems, {
+        title: title(7),
+        placeHolder: 'Assignees',
+        canPickMany: true,
+        ignoreFocusOut: true
+    });
+    if (!assignees) {
+        return undefined;
+    }
+
+    const next = await vscode.window.showQuickPick([
+        { label: 'Create', startWork: false, startTracking: false },
+        { label: 'Create and set in progress', startWork: true, startTracking: false },
+        { label: 'Create, set in progress and start time tracking', startWork: true, startTracking: true }
+    ], { title: title(8), placeHolder: 'Start working on it?', ignoreFocusOut: true });
+    if (!next) {
+        return undefined;
+    }
+
+    let status: string | undefined;
+    if (next.startWork) {
+        status = await clickUpService.findInProgressStatus(list.list.id);
+        if (!status) {
+            vscode.window.showWarningMessage(`List "${list.list.name}" has no in-progress status; the task keeps the list's default status.`);
+        }
+    }
+
+    return {
+        list: list.list,
+        params: {
+            name: name.trim(),
+            description: description.trim() || undefined,
+            priority: priority.priority,
+            timeEstimate: parseTime(estimate),
+            assigneeIds: assignees.map(item => item.member.id),
+            status
+        },
+        startTracking: next.startTracking
+    };
+}
@@ -1,13 +1,43 @@
 import * as vscode from 'vscode';
-import { ClickUpTasksProvider, ClickUpTaskItem } from './clickupTasksProvider';
+import { ClickUpChecklistEntryItem, ClickUpTasksProvider, ClickUpTaskItem, ClickUpTimeEntryItem, TaskDecorationProvider } from './clickupTasksProvider';
 import { ClickUpService, ClickUpTask } from './clickupService';
+import { TaskCache } from './taskCache';
+import { GROUP_BY_MODES, GroupByMode } from './taskGrouping';
+import { promptForNewTask } from './createTask';
+import { formatBranchName, formatTaskReference } from './taskReference';
+import { getGitApi, pickRepository } from './gitApi';
+import { ActiveTaskChange, BranchTaskWatcher } from './branchTaskWatcher';
+import { CommitMessagePrefiller } from './commitMessagePrefiller';
+import { SmartCommitWatcher } from './smartCommit';
+import { TrackingStatusBar } from './trackingStatusBar';
+import { IdleDetector } from './idleDetector';
+import { FocusSession } from './focusSession';
+import { buildTimesheet, promptForTimesheetRange, TimesheetPanel } from './timesheet';
+import { TaskDetailsPanel } from './taskDetailsPanel';
+import { getDescriptionUri, TASK_FILE_SCHEME, TaskFileSystemProvider } from './taskFileSystem';
+import { ClickUpCommentItem, formatSelectionComment, TaskCommentsProvider } from './taskCommentsProvider';
+import { formatCountdown, formatDateTime, formatTime, parseDateTime, parseTimeSpent } from './timeFormat';
+import { buildTodoDescription, findLine, parseTodoComment, TodoCodeActionProvider } from './todoCodeActions';
 
 let clickUpService: ClickUpService;
 let tasksProvider: ClickUpTasksProvider;
+let branchTaskWatcher: BranchTaskWatcher;
+let commitMessagePrefiller: CommitMessagePrefiller;
 let outputChannel: vscode.OutputChannel;
 let refreshCountdownStatusBarItem: vscode.StatusBarItem | undefined;
 let refreshCountdownInterval: NodeJS.Timeout | undefined;
 let nextRefreshTime: number = 0;
+// Settings that change which tasks are fetched; other settings don't need a refresh
+const TASK_SETTINGS = ['apiToken', 'teamId', 'inProgressStatuses'];
+
+/**
+ * A filled circle in a status color, for quick pick items (ThemeIcons can't take arbitrary colors)
+ */
+function getStatusIconUri(color: string): vscode.Uri {
+    const fill = /^#[0-9a-f]{3,8}$/i.test(color) ? color : '#808080';
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><circle cx="8" cy="8" r="5" fill="${fill}"/></svg>`;
+    return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
+}
 
 /**
  * Helper function to show a notification that auto-dismisses after 5 seconds
@@ -64,31 +94,105 @@ export function activate(context: vscode.ExtensionContext) {
     console.log('ClickUp Tasks extension is now active!');
 
     // Initialize ClickUp service with output channel for logging
-    clickUpService = new ClickUpService(outputChannel);
+    clickUpService = new ClickUpService(outputChannel, context.globalState);
 
     // Create and register the tree data provider
-    tasksProvider = new ClickUpTasksProvider(clickUpService);
+    // The last good task list is kept in globalState so the tree isn't empty after a reload
+    tasksProvider = new ClickUpTasksProvider(clickUpService, new TaskCache(context.globalState));
     
     // Register the view in the Source Control container
     const view = vscode.window.createTreeView('clickupTasks', {
         treeDataProvider: tasksProvider,
-        showCollapseAll: true
+        showCollapseAll: true,
+        // Only checklist items have checkboxes; nothing should be checked along with them
+        manageCheckboxStateManually: true
+    });
+
+    // Checking a checklist item resolves it in ClickUp
+    context.subscriptions.push(view.onDidChangeCheckboxState(async event => {
+        for (const [item, state] of event.items) {
+            if (!(item instanceof ClickUpChecklistEntryItem)) {
+                continue;
+            }
+            const resolved = state === vscode.TreeItemCheckboxState.Checked;
+            try {
+                await tasksProvider.setChecklistItemResolved(item, resolved);
+                outputChannel.appendLine(`${resolved ? 'Checked' : 'Unchecked'} "${item.item.name}" on task ${item.task.name} (${item.task.id})`);
+            } catch (error: any) {
+                const errorMessage = error.message || 'Unknown error';
+                outputChannel.appendLine(`Error updating checklist item: ${errorMessage}`);
+                showAutoDismissNotification(`Failed to update checklist item: ${errorMessage}`, 'error');
+            }
+        }
+    }));
+
+    // Offer "Create ClickUp task from TODO" on TODO/FIXME comments in any file
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, new TodoCodeActionProvider(), {
+            providedCodeActionKinds: TodoCodeActionProvider.providedCodeActionKinds
+        })
+    );
+
+    // Dim context parent tasks and highlight the task of the current git branch
+    context.subscriptions.push(
+        vscode.window.registerFileDecorationProvider(new TaskDecorationProvider())
+    );
+
+    // Comments of the task selected in the tasks view
+    const commentsProvider = new TaskCommentsProvider(clickUpService);
+    const commentsView = vscode.window.createTreeView('clickupComments', {
+        treeDataProvider: commentsProvider
     });
+    function updateCommentsView() {
+        const newCount = commentsProvider.getNewCommentCount();
+        commentsView.description = commentsProvider.getTask()?.name;
+        commentsView.badge = newCount > 0
+            ? { value: newCount, tooltip: `${newCount} new comment${newCount === 1 ? '' : 's'} or repl${newCount === 1 ? 'y' : 'ies'}` }
+            : undefined;
+    }
+    // Look for new comments after every task refresh
+    let wasUpdating = false;
+    context.subscriptions.push(
+        commentsProvider,
+        commentsView,
+        commentsProvider.onDidChangeTreeData(updateCommentsView),
+        view.onDidChangeSelection(event => {
+            const item = event.selection[0];
+            if (item instanceof ClickUpTaskItem && item.task) {
+                commentsProvider.setTask(item.task);
+            }
+        }),
+        tasksProvider.onDidChangeSyncStatus(() => {
+            const { updating } = tasksProvider.getSyncStatus();
+            if (wasUpdating && !updating && commentsView.visible) {
+                commentsProvider.refresh();
+            }
+            wasUpdating = updating;
+        })
+    );
+
+    // Show "Updating..." during background refreshes and the last sync time otherwise
+    function updateSyncStatus() {
+        const { updating, lastSynced } = tasksProvider.getSyncStatus();
+        if (updating) {
+            view.description = 'Updating...';
+        } else if (lastSynced) {
+            const time = new Date(lastSynced).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+            view.description = `Synced ${time}`;
+        } else {
+            view.description = undefined;
+        }
+    }
+    context.subscriptions.push(tasksProvider.onDidChangeSyncStatus(updateSyncStatus));
+    updateSyncStatus();
 
     // Note: We removed onDidChangeSelection handler
     // Normal click is now handled via the command property on TreeItem
     // Ctrl+Click is handled automatically by VS Code via resourceUri
 
-    // Function to format countdown time
-    function formatCountdown(seconds: number): string {
-        const minutes = Math.floor(seconds / 60);
-        const secs = seconds % 60;
-        return `${minutes}:${secs.toString().padStart(2, '0')}`;
-    }
-
     // Register countdown command (clicking it refreshes)
     const countdownCommand = vscode.commands.registerCommand('clickupTasks.countdown', () => {
-        tasksProvider.refresh();
+        tasksProvider.refresh(true);
         const config = vscode.workspace.getConfiguration('clickupTasks');
         if (config.get<boolean>('autoRefresh', true)) {
             startCountdown(5 * 60 * 1000);
@@ -135,7 +239,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Register commands
     const refreshCommand = vscode.commands.registerCommand('clickupTasks.refresh', () => {
-        tasksProvider.refresh();
+        tasksProvider.refresh(true); // Manual refresh always fetches everything
         // Reset countdown after manual refresh
         const config = vscode.workspace.getConfiguration('clickupTasks');
         if (config.get<boolean>('autoRefresh', true)) {
@@ -178,12 +282,44 @@ export function activate(context: vscode.ExtensionContext) {
             await config.update('teamId', undefined, vscode.ConfigurationTarget.Global);
             await config.update('autoRefresh', undefined, vscode.ConfigurationTarget.Global);
             await config.update('inProgressStatuses', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('maxConcurrentRequests', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('groupBy', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('branchNameTemplate', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('startWorkOnCreateBranch', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('branchTaskIdPattern', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('switchTimerOnCheckout', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('prefillCommitMessage', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('commitMessageTemplate', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('smartCommits', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('idleTimeout', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('focusWorkMinutes', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('focusBreakMinutes', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('focusLongBreakMinutes', undefined, vscode.ConfigurationTarget.Global);
+            await config.update('focusSessionsBeforeLongBreak', undefined, vscode.ConfigurationTarget.Global);
             
             showAutoDismissNotification('All ClickUp Tasks settings have been reset to defaults.', 'information');
             tasksProvider.refresh();
         }
     });
 
+    const groupByCommand = vscode.commands.registerCommand('clickupTasks.groupBy', async () => {
+        const config = vscode.workspace.getConfiguration('clickupTasks');
+        const currentMode = config.get<GroupByMode>('groupBy', 'none');
+        const picked = await vscode.window.showQuickPick(
+            GROUP_BY_MODES.map(({ mode, label }) => ({
+                label,
+                mode,
+                description: mode === currentMode ? '(current)' : undefined
+            })),
+            { placeHolder: 'Group ClickUp tasks by...' }
+        );
+
+        if (picked && picked.mode !== currentMode) {
+            // The configuration change listener redraws the tree
+            await config.update('groupBy', picked.mode, vscode.ConfigurationTarget.Global);
+        }
+    });
+
     const showLogsCommand = vscode.commands.registerCommand('clickupTasks.showLogs', () => {
         outputChannel.show(true);
     });
@@ -212,15 +348,161 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    const openDetailsCommand = vscode.commands.registerCommand('clickupTasks.openDetails', async (item?: ClickUpTaskItem) => {
+        let task = item?.task;
+        if (!task) {
+            const selected = await vscode.window.showQuickPick(
+                tasksProvider.getTasks().map(task => ({ label: task.name, description: task.status?.status, task })),
+                { placeHolder: 'Select a task to show' }
+            );
+            task = selected?.task;
+        }
+        if (task) {
+            TaskDetailsPanel.show(clickUpService, tasksProvider, task.id, task.name, message => outputChannel.appendLine(message));
+        }
+    });
+
+    const taskFileSystem = new TaskFileSystemProvider(
+        clickUpService,
+        message => outputChannel.appendLine(message),
+        taskId => tasksProvider.updateTask(taskId)
+    );
+
+    const editDescriptionCommand = vscode.commands.registerCommand('clickupTasks.editDescription', async (item?: ClickUpTaskItem) => {
+        let task = item?.task;
+        if (!task) {
+            const selected = await vscode.window.showQuickPick(
+                tasksProvider.getTasks().map(task => ({ label: task.name, description: task.status?.status, task })),
+                { placeHolder: 'Select a task to edit its description' }
+            );
+            task = selected?.task;
+        }
+        if (!task) {
+            return;
+        }
+
+        try {
+            const document = await vscode.workspace.openTextDocument(getDescriptionUri(task.id));
+            await vscode.window.showTextDocument(document);
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error opening description: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to open the description: ${errorMessage}`, 'error');
+        }
+    });
+
+    const refreshCommentsCommand = vscode.commands.registerCommand('clickupTasks.refreshComments', () => {
+        commentsProvider.refresh();
+    });
+
+    const addCommentCommand = vscode.commands.registerCommand('clickupTasks.addComment', async (item?: ClickUpTaskItem) => {
+        const task = item?.task || commentsProvider.getTask();
+        if (!task) {
+            showAutoDismissNotification('No task selected. Please select a task to comment on.', 'error');
+            return;
+        }
+
+        const text = await vscode.window.showInputBox({
+            title: `Comment on "${task.name}"`,
+            prompt: 'The comment is posted to ClickUp',
+            validateInput: value => value.trim() ? undefined : 'Enter a comment'
+        });
+        if (!text) {
+            return;
+        }
+
+        try {
+            await clickUpService.addTaskComment(task.id, text.trim());
+            showAutoDismissNotification(`Comment posted on "${task.name}"`, 'information');
+            commentsProvider.setTask(task);
+            await commentsProvider.refresh();
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error posting comment: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to post comment: ${errorMessage}`, 'error');
+        }
+    });
+
+    const replyToCommentCommand = vscode.commands.registerCommand('clickupTasks.replyToComment', async (item?: ClickUpCommentItem) => {
+        if (!item) {
+            return;
+        }
+
+        const text = await vscode.window.showInputBox({
+            title: `Reply to ${item.comment.user.username}`,
+            prompt: item.comment.text.trim().split('\n')[0],
+            validateInput: value => value.trim() ? undefined : 'Enter a reply'
+        });
+        if (!text) {
+            return;
+        }
+
+        try {
+            await clickUpService.addCommentReply(item.threadId, text.trim());
+            showAutoDismissNotification('Reply posted', 'information');
+            await commentsProvider.refresh();
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error posting reply: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to post reply: ${errorMessage}`, 'error');
+        }
+    });
+
+    const postSelectionAsCommentCommand = vscode.commands.registerCommand('clickupTasks.postSelectionAsComment', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.selection.isEmpty) {
+            showAutoDismissNotification('Select the code to post first.', 'error');
+            return;
+        }
+
+        // The task whose comments are shown, else the branch's or the tracked task
+        let task: { id: string; name: string } | undefined = commentsProvider.getTask();
+        if (!task) {
+            const taskId = branchTaskWatcher.getActiveTaskId() || clickUpService.getTrackedTaskId();
+            task = tasksProvider.getTasks().find(task => task.id === taskId);
+        }
+        if (!task) {
+            const selected = await vscode.window.showQuickPick(
+                tasksProvider.getTasks().map(task => ({ label: task.name, description: task.status?.status, task })),
+                { placeHolder: 'Select a task to post the selection to' }
+            );
+            task = selected?.task;
+        }
+        if (!task) {
+            return;
+        }
+
+        const message = await vscode.window.showInputBox({
+            title: `Post Selection to "${task.name}"`,
+            prompt: 'Optional text to go with the code',
+            placeHolder: 'e.g. Should this handle empty lists?'
+        });
+        if (message === undefined) {
+            return;
+        }
+
+        try {
+            await clickUpService.addTaskComment(task.id, formatSelectionComment(editor.document, editor.selection, message));
+            showAutoDismissNotification(`Selection posted on "${task.name}"`, 'information');
+            if (commentsProvider.getTask()?.id === task.id) {
+                await commentsProvider.refresh();
+            }
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error posting selection: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to post selection: ${errorMessage}`, 'error');
+        }
+    });
+
     const copyTaskIdCommand = vscode.commands.registerCommand('clickupTasks.copyTaskId', async (taskId: string) => {
-        const taskIdFormatted = `CU-${taskId}`;
+        const taskIdFormatted = formatTaskReference(taskId);
         await vscode.env.clipboard.writeText(taskIdFormatted);
         showAutoDismissNotification(`Copied ${taskIdFormatted} to clipboard`, 'information');
     });
 
     const copyTaskIdFromItemCommand = vscode.commands.registerCommand('clickupTasks.copyTaskIdFromItem', async (item: ClickUpTaskItem) => {
         if (item.task) {
-            const taskIdFormatted = `CU-${item.task.id}`;
+            const taskIdFormatted = formatTaskReference(item.task.id);
             await vscode.env.clipboard.writeText(taskIdFormatted);
             showAutoDismissNotification(`Copied ${taskIdFormatted} to clipboard`, 'information');
         }
@@ -304,6 +586,537 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    const createTaskCommand = vscode.commands.registerCommand('clickupTasks.createTask', async () => {
+        try {
+            const input = await promptForNewTask(clickUpService);
+            if (!input) {
+                return;
+            }
+
+            outputChannel.appendLine(`Creating task "${input.params.name}" in list ${input.list.name}`);
+            const task = await clickUpService.createTask(input.list, input.params);
+
+            if (input.startTracking) {
+                await clickUpService.startTimeTracking(task.id);
+            }
+
+            // Picks up the new task if it's in progress (only tasks updated since the last sync are fetched)
+            tasksProvider.refresh();
+
+            const action = await vscode.window.showInformationMessage(
+                `Created task ${formatTaskReference(task.id)}: ${task.name}`,
+                'Open in ClickUp',
+                'Copy Task ID'
+            );
+            if (action === 'Open in ClickUp') {
+                vscode.env.openExternal(vscode.Uri.parse(task.url));
+            } else if (action === 'Copy Task ID') {
+                await vscode.commands.executeCommand('clickupTasks.copyTaskId', task.id);
+            }
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error creating task: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to create task: ${errorMessage}`, 'error');
+        }
+    });
+
+    const createTaskFromTodoCommand = vscode.commands.registerCommand('clickupTasks.createTaskFromTodo', async (uri?: vscode.Uri, line?: number) => {
+        const editor = vscode.window.activeTextEditor;
+        const document = uri ? await vscode.workspace.openTextDocument(uri) : editor?.document;
+        const lineNumber = line ?? editor?.selection.active.line;
+        if (!document || lineNumber === undefined) {
+            showAutoDismissNotification('Open a file and place the cursor on a TODO or FIXME comment.', 'error');
+            return;
+        }
+
+        const lineText = document.lineAt(lineNumber).text;
+        const todo = parseTodoComment(lineText);
+        if (!todo) {
+            showAutoDismissNotification('No TODO or FIXME comment on this line.', 'error');
+            return;
+        }
+
+        try {
+            const input = await promptForNewTask(clickUpService, { name: todo.text });
+            if (!input) {
+                return;
+            }
+
+            // Whatever was typed comes first, then where the TODO is and the code around it
+            input.params.description = [input.params.description, buildTodoDescription(document, lineNumber)]
+                .filter(Boolean)
+                .join('\n\n');
+
+            outputChannel.appendLine(`Creating task "${input.params.name}" from ${todo.keyword} in ${document.uri.fsPath}:${lineNumber + 1}`);
+            const task = await clickUpService.createTask(input.list, input.params);
+            if (input.startTracking) {
+                await clickUpService.startTimeTracking(task.id);
+            }
+            tasksProvider.refresh();
+
+            // The document may have been edited while the task was being created
+            const currentLine = findLine(document, lineNumber, lineText);
+            const taskReference = formatTaskReference(task.id);
+            if (currentLine === undefined) {
+                showAutoDismissNotification(`Created task ${taskReference}, but the ${todo.keyword} comment changed, so it wasn't updated.`, 'warning');
+                return;
+            }
+
+            const edit = new vscode.WorkspaceEdit();
+            edit.insert(document.uri, new vscode.Position(currentLine, todo.insertAt), ` ${taskReference}`);
+            await vscode.workspace.applyEdit(edit);
+            showAutoDismissNotification(`Created task ${taskReference}: ${task.name}`, 'information');
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error creating task from ${todo.keyword}: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to create task: ${errorMessage}`, 'error');
+        }
+    });
+
+    const createBranchCommand = vscode.commands.registerCommand('clickupTasks.createBranch', async (item?: ClickUpTaskItem) => {
+        const task = item?.task;
+        if (!task) {
+            showAutoDismissNotification('No task selected. Please select a task to create a branch for.', 'error');
+            return;
+        }
+
+        const git = await getGitApi();
+        if (!git) {
+            showAutoDismissNotification('Git is not available. Make sure the built-in Git extension is enabled.', 'error');
+            return;
+        }
+        const repository = await pickRepository(git);
+        if (!repository) {
+            if (git.repositories.length === 0) {
+                showAutoDismissNotification('No Git repository is open.', 'error');
+            }
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('clickupTasks');
+        const branchName = await vscode.window.showInputBox({
+            prompt: `Branch for "${task.name}"`,
+            value: formatBranchName(config.get<string>('branchNameTemplate', 'CU-{id}-{slug}'), task),
+            validateInput: value => value.trim() && !/\s/.test(value.trim()) ? undefined : 'Branch names can\'t be empty or contain spaces'
+        });
+        if (!branchName) {
+            return;
+        }
+
+        try {
+            const name = branchName.trim();
+            if (repository.state.refs.some(ref => ref.name === name)) {
+                const action = await vscode.window.showWarningMessage(`Branch ${name} already exists.`, 'Check Out');
+                if (action !== 'Check Out') {
+                    return;
+                }
+                await repository.checkout(name);
+            } else {
+                await repository.createBranch(name, true);
+            }
+            outputChannel.appendLine(`Checked out branch ${name} for task ${task.name} (${task.id})`);
+            showAutoDismissNotification(`Switched to branch ${name}`, 'information');
+
+            if (!config.get<boolean>('startWorkOnCreateBranch', false)) {
+                return;
+            }
+
+            // Move the task to in progress (unless it already is) and start tracking
+            if (!(await clickUpService.isTaskInProgress(task)) && task.list) {
+                const status = await clickUpService.findInProgressStatus(task.list.id);
+                if (status) {
+                    await clickUpService.updateTaskStatus(task.id, status);
+                }
+            }
+            if (!task.isCurrentlyTracked) {
+                await clickUpService.startTimeTracking(task.id);
+            }
+            // The task may be new to the in-progress list, so fetch changes rather than just this task
+            tasksProvider.refresh();
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error creating branch: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to create branch: ${errorMessage}`, 'error');
+        }
+    });
+
+    const insertTaskReferenceCommand = vscode.commands.registerCommand('clickupTasks.insertTaskReference', async (item?: ClickUpTaskItem) => {
+        let task = item?.task || undefined;
+        if (!task) {
+            const selected = await vscode.window.showQuickPick(
+                tasksProvider.getTasks().map(task => ({
+                    label: task.name,
+                    description: formatTaskReference(task.id),
+                    detail: task.status?.status,
+                    task
+                })),
+                { placeHolder: 'Select a task to reference in the commit message', matchOnDescription: true }
+            );
+            task = selected?.task;
+        }
+        if (!task) {
+            return;
+        }
+
+        const reference = formatTaskReference(task.id);
+
+        // The commit box is a text editor while it has focus, so insert at the cursor there
+        const editor = vscode.window.activeTextEditor;
+        if (editor?.document.uri.scheme === 'vscode-scm') {
+            await editor.edit(editBuilder => editor.selections.forEach(selection => editBuilder.replace(selection, reference)));
+            return;
+        }
+
+        const git = await getGitApi();
+        const repository = git ? await pickRepository(git) : undefined;
+        if (!repository) {
+            showAutoDismissNotification('No Git repository is open.', 'error');
+            return;
+        }
+        const message = repository.inputBox.value;
+        repository.inputBox.value = message.trim() ? `${message.replace(/\s+$/, '')} ${reference}` : `${reference} `;
+    });
+
+    // Shows the tracked task and its live timer while the SCM panel is closed
+    const trackingStatusBar = new TrackingStatusBar(clickUpService, tasksProvider);
+
+    const trackedTaskActionsCommand = vscode.commands.registerCommand('clickupTasks.trackedTaskActions', async () => {
+        const taskId = clickUpService.getTrackedTaskId();
+        if (!taskId) {
+            return;
+        }
+        const task = trackingStatusBar.getTrackedTask();
+
+        const action = await vscode.window.showQuickPick([
+            { label: '$(debug-stop) Stop Time Tracking', action: 'stop' },
+            { label: '$(arrow-swap) Switch to Another Task...', action: 'switch' },
+            { label: '$(link-external) Open in Browser', action: 'open' }
+        ], { placeHolder: task?.name || formatTaskReference(taskId) });
+
+        if (action?.action === 'stop') {
+            await vscode.commands.executeCommand('clickupTasks.stopTask', task);
+        } else if (action?.action === 'switch') {
+            const selected = await vscode.window.showQuickPick(
+                tasksProvider.getTasks()
+                    .filter(other => other.id !== taskId)
+                    .map(other => ({ label: other.name, description: other.status?.status, task: other })),
+                { placeHolder: 'Switch time tracking to' }
+            );
+            if (selected) {
+                // Starting a timer stops the running one
+                await vscode.commands.executeCommand('clickupTasks.playTask', selected.task);
+                if (task) {
+                    await tasksProvider.updateTask(task.id);
+                }
+            }
+        } else if (action?.action === 'open') {
+            const url = task?.url || (await clickUpService.getTask(taskId))?.url;
+            if (url) {
+                vscode.env.openExternal(vscode.Uri.parse(url));
+            }
+        }
+    });
+
+    // Work/break cycles on one task, with the timer paused during breaks
+    const focusSession = new FocusSession(
+        clickUpService,
+        message => outputChannel.appendLine(message),
+        taskId => tasksProvider.updateTask(taskId)
+    );
+
+    const startFocusSessionCommand = vscode.commands.registerCommand('clickupTasks.startFocusSession', async (item?: ClickUpTaskItem) => {
+        let task = item?.task || trackingStatusBar.getTrackedTask();
+        if (!task) {
+            const selected = await vscode.window.showQuickPick(
+                tasksProvider.getTasks().map(task => ({ label: task.name, description: task.status?.status, task })),
+                { placeHolder: 'Select a task to focus on' }
+            );
+            task = selected?.task;
+        }
+        if (!task) {
+            return;
+        }
+
+        try {
+            await focusSession.start(task.id, task.name);
+            const minutes = vscode.workspace.getConfiguration('clickupTasks').get<number>('focusWorkMinutes', 25);
+            showAutoDismissNotification(`Focus session started: ${minutes} minutes on "${task.name}"`, 'information');
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error starting focus session: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to start focus session: ${errorMessage}`, 'error');
+        }
+    });
+
+    const logTimeCommand = vscode.commands.registerCommand('clickupTasks.logTime', async (item?: ClickUpTaskItem) => {
+        let task = item?.task;
+        if (!task) {
+            const selected = await vscode.window.showQuickPick(
+                tasksProvider.getTasks().map(task => ({ label: task.name, description: task.status?.status, task })),
+                { placeHolder: 'Select a task to log time on' }
+            );
+            task = selected?.task;
+        }
+        if (!task) {
+            return;
+        }
+
+        const invalidTimeSpent = 'Enter a duration like 1h30m or 90m, or a past time range like 14:00-15:30';
+        const timeSpent = await vscode.window.showInputBox({
+            title: 'Log Time (1/4)',
+            prompt: `Time spent on "${task.name}": a duration ending now, or a time range today`,
+            placeHolder: 'e.g. 1h30m, 90m or 14:00-15:30',
+            validateInput: value => parseTimeSpent(value) ? undefined : invalidTimeSpent
+        });
+        if (timeSpent === undefined) {
+            return;
+        }
+
+        const description = await vscode.window.showInputBox({
+            title: 'Log Time (2/4)',
+            prompt: 'Description (optional)',
+            placeHolder: 'e.g. Code review'
+        });
+        if (description === undefined) {
+            return;
+        }
+
+        const billable = await vscode.window.showQuickPick(
+            [{ label: 'Not billable', billable: false }, { label: 'Billable', billable: true }],
+            { title: 'Log Time (3/4)', placeHolder: 'Is this time billable?' }
+        );
+        if (!billable) {
+            return;
+        }
+
+        const tagsInput = await vscode.window.showInputBox({
+            title: 'Log Time (4/4)',
+            prompt: 'Tags, separated by commas (optional)',
+            placeHolder: 'e.g. meeting, review'
+        });
+        if (tagsInput === undefined) {
+            return;
+        }
+        const tags = tagsInput.split(',').map(tag => tag.trim()).filter(Boolean);
+
+        // Parsed again so a duration ends when the entry is created, not when it was typed. A range
+        // can stop being valid in the meantime, e.g. when the day changes while the steps are open
+        const timeEntry = parseTimeSpent(timeSpent);
+        if (!timeEntry) {
+            showAutoDismissNotification(invalidTimeSpent, 'error');
+            return;
+        }
+        const { start, duration } = timeEntry;
+        try {
+            outputChannel.appendLine(`Logging ${formatTime(duration)} on task ${task.name} (${task.id}) from ${formatDateTime(start)}`);
+            await clickUpService.addTimeEntry(task.id, {
+                start,
+                duration,
+                description: description.trim() || undefined,
+                billable: billable.billable,
+                tags: tags.length > 0 ? tags : undefined
+            });
+            showAutoDismissNotification(`Logged ${formatTime(duration)} on "${task.name}"`, 'information');
+            // Reloads the task's total and time entries
+            await tasksProvider.refreshTimeEntries(task.id);
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error logging time: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to log time: ${errorMessage}`, 'error');
+        }
+    });
+
+    const showTimesheetCommand = vscode.commands.registerCommand('clickupTasks.showTimesheet', async () => {
+        const range = await promptForTimesheetRange();
+        if (!range) {
+            return;
+        }
+
+        try {
+            const report = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Loading timesheet: ${range.label}` },
+                async () => {
+                    const entries = await clickUpService.getTimeEntries(range.start, range.end);
+                    // The entries' tasks provide the estimates; a task that can't be loaded just has none
+                    const taskIds = Array.from(new Set(entries.map(entry => entry.taskId).filter((id): id is string => !!id)));
+                    const tasks = new Map<string, ClickUpTask>();
+                    await Promise.all(taskIds.map(async taskId => {
+                        try {
+                            const task = await clickUpService.getTask(taskId);
+                            if (task) {
+                                tasks.set(taskId, task);
+                            }
+                        } catch (error: any) {
+                            outputChannel.appendLine(`Timesheet: could not load task ${taskId}: ${error.message}`);
+                        }
+                    }));
+                    return buildTimesheet(range.label, range.start, range.end, entries, tasks);
+                }
+            );
+            outputChannel.appendLine(`Timesheet ${range.label}: ${report.entries.length} time entries, ${formatTime(report.total) || '0m'}`);
+            TimesheetPanel.show(report, message => outputChannel.appendLine(message));
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error loading timesheet: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to load timesheet: ${errorMessage}`, 'error');
+        }
+    });
+
+    const stopFocusSessionCommand = vscode.commands.registerCommand('clickupTasks.stopFocusSession', async () => {
+        if (!focusSession.isRunning()) {
+            return;
+        }
+        try {
+            await focusSession.stop();
+            showAutoDismissNotification('Focus session ended', 'information');
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error ending focus session: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to end focus session: ${errorMessage}`, 'error');
+        }
+    });
+
+    const changeStatusCommand = vscode.commands.registerCommand('clickupTasks.changeStatus', async (item?: ClickUpTaskItem) => {
+        const task = item?.task;
+        if (!task) {
+            showAutoDismissNotification('No task selected. Please select a task to change its status.', 'error');
+            return;
+        }
+        if (!task.list) {
+            showAutoDismissNotification('Cannot change status: the task\'s list is unknown.', 'error');
+            return;
+        }
+
+        try {
+            const statuses = await clickUpService.getListStatuses(task.list.id);
+            const currentStatus = (task.status?.status || '').toLowerCase();
+            const selected = await vscode.window.showQuickPick(
+                statuses.map(status => ({
+                    label: status.status,
+                    description: status.status.toLowerCase() === currentStatus ? 'current' : undefined,
+                    iconPath: getStatusIconUri(status.color),
+                    status
+                })),
+                { placeHolder: `Change status of "${task.name}"` }
+            );
+            if (!selected || selected.status.status.toLowerCase() === currentStatus) {
+                return;
+            }
+
+            outputChannel.appendLine(`Changing status of task ${task.name} (${task.id}) to "${selected.status.status}"`);
+            await clickUpService.updateTaskStatus(task.id, selected.status.status);
+            showAutoDismissNotification(`Moved "${task.name}" to ${selected.status.status}`, 'information');
+
+            // Redraws the task, or removes it if it's no longer in progress
+            await tasksProvider.updateTask(task.id);
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error changing status: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to change status: ${errorMessage}`, 'error');
+        }
+    });
+
+    const editTimeEntryTimesCommand = vscode.commands.registerCommand('clickupTasks.editTimeEntryTimes', async (item?: ClickUpTimeEntryItem) => {
+        const entry = item?.entry;
+        if (!item || !entry || entry.end === undefined) {
+            return;
+        }
+
+        const start = await vscode.window.showInputBox({
+            title: 'Edit Time Entry (1/2)',
+            prompt: `Start of the time entry on "${item.task.name}" (YYYY-MM-DD HH:MM)`,
+            value: formatDateTime(entry.start),
+            validateInput: value => parseDateTime(value) === undefined ? 'Enter a date and time like 2024-03-01 09:30' : undefined
+        });
+        if (start === undefined) {
+            return;
+        }
+        const newStart = parseDateTime(start)!;
+
+        const end = await vscode.window.showInputBox({
+            title: 'Edit Time Entry (2/2)',
+            prompt: `End of the time entry on "${item.task.name}" (YYYY-MM-DD HH:MM)`,
+            value: formatDateTime(entry.end),
+            validateInput: value => {
+                const parsed = parseDateTime(value);
+                if (parsed === undefined) {
+                    return 'Enter a date and time like 2024-03-01 17:00';
+                }
+                return parsed <= newStart ? 'The end must be after the start' : undefined;
+            }
+        });
+        if (end === undefined) {
+            return;
+        }
+        const newEnd = parseDateTime(end)!;
+
+        try {
+            outputChannel.appendLine(`Changing time entry ${entry.id} of task ${item.task.id} to ${start} – ${end}`);
+            await clickUpService.updateTimeEntry(entry.id, { start: newStart, end: newEnd });
+            showAutoDismissNotification('Time entry updated', 'information');
+            // Reloads the entries and the task's total
+            await tasksProvider.refreshTimeEntries(item.task.id);
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error updating time entry: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to update time entry: ${errorMessage}`, 'error');
+        }
+    });
+
+    const editTimeEntryDescriptionCommand = vscode.commands.registerCommand('clickupTasks.editTimeEntryDescription', async (item?: ClickUpTimeEntryItem) => {
+        const entry = item?.entry;
+        if (!item || !entry) {
+            return;
+        }
+
+        const description = await vscode.window.showInputBox({
+            title: 'Edit Time Entry Description',
+            prompt: `Description of the time entry on "${item.task.name}"`,
+            value: entry.description
+        });
+        if (description === undefined || description === entry.description) {
+            return;
+        }
+
+        try {
+            outputChannel.appendLine(`Changing description of time entry ${entry.id} of task ${item.task.id}`);
+            await clickUpService.updateTimeEntry(entry.id, { description });
+            showAutoDismissNotification('Time entry updated', 'information');
+            await tasksProvider.refreshTimeEntries(item.task.id);
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error updating time entry: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to update time entry: ${errorMessage}`, 'error');
+        }
+    });
+
+    const deleteTimeEntryCommand = vscode.commands.registerCommand('clickupTasks.deleteTimeEntry', async (item?: ClickUpTimeEntryItem) => {
+        const entry = item?.entry;
+        if (!item || !entry) {
+            return;
+        }
+
+        const confirmation = await vscode.window.showWarningMessage(
+            `Delete the time entry ${item.label} (${item.description}) from "${item.task.name}"?`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirmation !== 'Delete') {
+            return;
+        }
+
+        try {
+            outputChannel.appendLine(`Deleting time entry ${entry.id} of task ${item.task.id}`);
+            await clickUpService.deleteTimeEntry(entry.id);
+            showAutoDismissNotification('Time entry deleted', 'information');
+            await tasksProvider.refreshTimeEntries(item.task.id);
+        } catch (error: any) {
+            const errorMessage = error.message || 'Unknown error';
+            outputChannel.appendLine(`Error deleting time entry: ${errorMessage}`);
+            showAutoDismissNotification(`Failed to delete time entry: ${errorMessage}`, 'error');
+        }
+    });
+
     // Auto-refresh if enabled
     const config = vscode.workspace.getConfiguration('clickupTasks');
     const refreshInterval = 5 * 60 * 1000; // 5 minutes
@@ -330,9 +1143,23 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Listen for configuration changes
     context.subscriptions.push(
-        vscode.workspace.onDidChangeConfiguration(e => {
-            if (e.affectsConfiguration('clickupTasks')) {
-                tasksProvider.refresh();
+        vscode.workspace.onDidChangeConfiguration(async e => {
+            if (e.affectsConfiguration('clickupTasks.branchTaskIdPattern')) {
+                branchTaskWatcher.redetect();
+            }
+            if (e.affectsConfiguration('clickupTasks.prefillCommitMessage') || e.affectsConfiguration('clickupTasks.commitMessageTemplate')) {
+                commitMessagePrefiller.update();
+            }
+            if (e.affectsConfiguration('clickupTasks.groupBy')) {
+                // Display-only setting, no need to fetch anything
+                tasksProvider.redraw();
+            } else if (TASK_SETTINGS.some(setting => e.affectsConfiguration(`clickupTasks.${setting}`))) {
+                // Team, user and cached tasks belong to the previous account/team
+                if (e.affectsConfiguration('clickupTasks.apiToken') || e.affectsConfiguration('clickupTasks.teamId')) {
+                    clickUpService.invalidateSession();
+                    await tasksProvider.clearCache();
+                }
+                tasksProvider.refresh(true); // e.g. in-progress statuses changed, so deltas are not enough
             }
         })
     );
@@ -343,21 +1170,114 @@ export function activate(context: vscode.ExtensionContext) {
         configureCommand, 
         openSettingsCommand, 
         resetSettingsCommand, 
+        groupByCommand, 
         showLogsCommand, 
         debugCommand, 
         debugListMyTasksCommand, 
         openTaskCommand, 
+        openDetailsCommand, 
+        taskFileSystem, 
+        vscode.workspace.registerFileSystemProvider(TASK_FILE_SCHEME, taskFileSystem, { isCaseSensitive: true }), 
+        editDescriptionCommand, 
+        refreshCommentsCommand, 
+        addCommentCommand, 
+        replyToCommentCommand, 
+        postSelectionAsCommentCommand, 
         copyTaskIdCommand, 
         copyTaskIdFromItemCommand, 
         playTaskCommand, 
-        stopTaskCommand,
+        stopTaskCommand, 
+        changeStatusCommand, 
+        editTimeEntryTimesCommand, 
+        editTimeEntryDescriptionCommand, 
+        deleteTimeEntryCommand, 
+        createTaskCommand, 
+        createTaskFromTodoCommand, 
+        createBranchCommand, 
+        insertTaskReferenceCommand, 
+        trackingStatusBar, 
+        trackedTaskActionsCommand, 
+        focusSession, 
+        startFocusSessionCommand, 
+        stopFocusSessionCommand, 
+        logTimeCommand, 
+        showTimesheetCommand, 
         { dispose: () => tasksProvider.dispose() } // Clean up provider interval
     );
 
+    // Follow the task named by the checked out git branch
+    branchTaskWatcher = new BranchTaskWatcher();
+    context.subscriptions.push(
+        branchTaskWatcher,
+        branchTaskWatcher.onDidChangeActiveTask(onActiveTaskChanged)
+    );
+    branchTaskWatcher.start();
+
+    // Put the branch's (or else the tracked) task into empty commit message boxes
+    commitMessagePrefiller = new CommitMessagePrefiller(() => {
+        const taskId = branchTaskWatcher.getActiveTaskId() || clickUpService.getTrackedTaskId();
+        if (!taskId) {
+            return undefined;
+        }
+        const task = tasksProvider.getTasks().find(task => task.id === taskId);
+        return { id: taskId, name: task?.name || '' };
+    });
+    context.subscriptions.push(
+        commitMessagePrefiller,
+        // Covers branch switches, tracking changes and refreshes (names become known)
+        tasksProvider.onDidChangeTreeData(() => commitMessagePrefiller.update())
+    );
+    commitMessagePrefiller.start();
+
+    // Act on "#status #time 45m" directives in the messages of local commits
+    const smartCommitWatcher = new SmartCommitWatcher(
+        clickUpService,
+        context.globalState,
+        message => outputChannel.appendLine(message),
+        () => tasksProvider.refresh()
+    );
+    context.subscriptions.push(smartCommitWatcher);
+    smartCommitWatcher.start();
+
+    // Ask what to do with the time when nothing happens in the editor while a timer runs
+    context.subscriptions.push(new IdleDetector(
+        clickUpService,
+        message => outputChannel.appendLine(message),
+        taskId => tasksProvider.updateTask(taskId)
+    ));
+
     // Initial load
     tasksProvider.refresh();
 }
 
+/**
+ * Highlight the task of the new branch and, if enabled, move the timer to it on checkout
+ */
+async function onActiveTaskChanged({ taskId, previousTaskId, checkout }: ActiveTaskChange): Promise<void> {
+    outputChannel.appendLine(taskId
+        ? `Current branch belongs to task ${taskId}`
+        : `Current branch doesn't reference a task${previousTaskId ? ` (was ${previousTaskId})` : ''}`);
+    await tasksProvider.setActiveTaskId(taskId);
+
+    // Switching to a branch without a task (e.g. main) leaves the timer alone
+    const autoSwitch = vscode.workspace.getConfiguration('clickupTasks').get<boolean>('switchTimerOnCheckout', false);
+    if (!checkout || !taskId || !autoSwitch || clickUpService.isInternallyTracked(taskId)) {
+        return;
+    }
+
+    try {
+        await clickUpService.stopTimeTracking();
+        await clickUpService.startTimeTracking(taskId);
+        showAutoDismissNotification(`Switched time tracking to ${formatTaskReference(taskId)}`, 'information');
+        // Picks up the tracking state of both tasks
+        tasksProvider.refresh();
+    } catch (error: any) {
+        const errorMessage = error.message || 'Unknown error';
+        outputChannel.appendLine(`Error switching time tracking to task ${taskId}: ${errorMessage}`);
+        showAutoDismissNotification(`Failed to switch time tracking: ${errorMessage}`, 'error');
+    }
+}
+
 export function deactivate() {}
 
 
@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import { ClickUpService } from './clickupService';
+import { formatCountdown } from './timeFormat';
+
+type FocusPhase = 'work' | 'break';
+
+interface FocusState {
+    taskId: string;
+    taskName: string;
+    phase: FocusPhase;
+    session: number; // 1-based number of the current (or last finished) work session
+    phaseEndsAt: number; // Timestamp (milliseconds)
+}
+
+/**
+ * Pomodoro-style focus mode: alternating work and break phases on one task
+ * The ClickUp timer runs during work phases only; each work phase is its own time entry with
+ * the session number in its description. The countdown is shown in the status bar
+ */
+export class FocusSession implements vscode.Disposable {
+    private state: FocusState | undefined;
+    private item: vscode.StatusBarItem;
+    private tickInterval: NodeJS.Timeout | undefined;
+    // Set while a phase change talks to ClickUp, so ticks don't start a second one
+    private switching: boolean = false;
+
+    /**
+     * @param onTimerChanged Called with the task whenever its timer was started or stopped
+     */
+    constructor(
+        private clickUpService: ClickUpService,
+        private log: (message: string) => void,
+        private onTimerChanged: (taskId: string) => void
+    ) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.item.name = 'ClickUp Focus Session';
+        this.item.command = 'clickupTasks.stopFocusSession';
+    }
+
+    isRunning(): boolean {
+        return this.state !== undefined;
+    }
+
+    /**
+     * Start the first work phase on a task (ending any previous focus session)
+     */
+    async start(taskId: string, taskName: string): Promise<void> {
+        this.clear();
+        this.state = { taskId, taskName, phase: 'work', session: 1, phaseEndsAt: 0 };
+        try {
+            await this.startWork();
+        } catch (error) {
+            this.clear();
+            throw error;
+        }
+        this.tickInterval = setInterval(() => this.tick(), 1000);
+    }
+
+    /**
+     * End the focus session; a running work phase keeps its time
+     */
+    async stop(): Promise<void> {
+        const state = this.state;
+        if (!state) {
+            return;
+        }
+
+        this.clear();
+        this.log(`Focus session on task ${state.taskId} ended after ${state.session} session(s)`);
+        if (state.phase === 'work' && this.clickUpService.isInternallyTracked(state.taskId)) {
+            await this.clickUpService.stopTimeTracking();
+            this.onTimerChanged(state.taskId);
+        }
+    }
+
+    dispose(): void {
+        this.clear();
+        this.item.dispose();
+    }
+
+    private clear(): void {
+        if (this.tickInterval) {
+            clearInterval(this.tickInterval);
+            this.tickInterval = undefined;
+        }
+        this.state = undefined;
+        this.item.hide();
+    }
+
+    private getConfig(): { work: number; shortBreak: number; longBreak: number; sessionsBeforeLongBreak: number } {
+        const config = vscode.workspace.getConfiguration('clickupTasks');
+        return {
+            work: config.get<number>('focusWorkMinutes', 25) * 60 * 1000,
+            shortBreak: config.get<number>('focusBreakMinutes', 5) * 60 * 1000,
+            longBreak: config.get<number>('focusLongBreakMinutes', 15) * 60 * 1000,
+            sessionsBeforeLongBreak: Math.max(1, config.get<number>('focusSessionsBeforeLongBreak', 4))
+        };
+    }
+
+    private async startWork(): Promise<void> {
+        const state = this.state!;
+        const description = `Focus session ${state.session}`;
+        await this.clickUpService.startTimeTracking(state.taskId, description);
+        state.phase = 'work';
+        state.phaseEndsAt = Date.now() + this.getConfig().work;
+        this.log(`${description} started on task ${state.taskId}`);
+        this.onTimerChanged(state.taskId);
+        this.render();
+    }
+
+    private async startBreak(): Promise<void> {
+        const state = this.state!;
+        const config = this.getConfig();
+        const isLongBreak = state.session % config.sessionsBeforeLongBreak === 0;
+
+        await this.clickUpService.stopTimeTracking();
+        state.phase = 'break';
+        state.phaseEndsAt = Date.now() + (isLongBreak ? config.longBreak : config.shortBreak);
+        this.log(`Focus session ${state.session} finished, ${isLongBreak ? 'long ' : ''}break started`);
+        this.onTimerChanged(state.taskId);
+        this.render();
+
+        vscode.window.showInformationMessage(`Focus session ${state.session} done. Time for a ${isLongBreak ? 'long ' : ''}break!`);
+    }
+
+    private async tick(): Promise<void> {
+        const state = this.state;
+        if (!state || this.switching) {
+            return;
+        }
+
+        // Stopping or switching the timer by other means ends the focus session
+        if (state.phase === 'work' && !this.clickUpService.isInternallyTracked(state.taskId)) {
+            this.log(`Timer of task ${state.taskId} stopped outside the focus session, ending it`);
+            this.clear();
+            return;
+        }
+
+        if (Date.now() < state.phaseEndsAt) {
+            this.render();
+            return;
+        }
+
+        this.switching = true;
+        try {
+            if (state.phase === 'work') {
+                await this.startBreak();
+            } else {
+                state.session++;
+                await this.startWork();
+                vscode.window.showInformationMessage(`Break over. Focus session ${state.session} started on "${state.taskName}".`);
+            }
+        } catch (error: any) {
+            this.log(`Focus session: error switching phase: ${error.message}`);
+            vscode.window.showErrorMessage(`Focus session stopped: ${error.message}`);
+            this.clear();
+        } finally {
+            this.switching = false;
+        }
+    }
+
+    private render(): void {
+        const state = this.state;
+        if (!state) {
+            return;
+        }
+
+        const remaining = formatCountdown(Math.max(0, Math.ceil((state.phaseEndsAt - Date.now()) / 1000)));
+        if (state.phase === 'work') {
+            this.item.text = `$(target) Focus ${state.session} ${remaining}`;
+            this.item.tooltip = `Focus session ${state.session} on "${state.taskName}"\nClick to end the focus session`;
+        } else {
+            this.item.text = `$(coffee) Break ${remaining}`;
+            this.item.tooltip = `Break after focus session ${state.session}; the timer resumes on "${state.taskName}" afterwards\nClick to end the focus session`;
+        }
+        this.item.show();
+    }
+}
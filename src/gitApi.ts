@@ -0,0 +1,103 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/*
+ * The parts of the built-in git extension's API (vscode.git, API version 1) used here
+ * Field names follow extensions/git/src/api/git.d.ts in the VS Code repository
+ */
+
+export interface GitUpstreamRef {
+    readonly remote: string;
+    readonly name: string;
+}
+
+export interface GitBranch {
+    readonly name?: string;
+    readonly commit?: string;
+    readonly upstream?: GitUpstreamRef;
+    readonly ahead?: number; // Commits not on the upstream yet; set when there is an upstream
+}
+
+export interface GitCommit {
+    readonly hash: string;
+    readonly message: string;
+    readonly parents: string[];
+    readonly authorDate?: Date;
+    readonly authorEmail?: string;
+}
+
+export interface GitRepositoryState {
+    readonly HEAD: GitBranch | undefined;
+    readonly refs: GitBranch[];
+    readonly onDidChange: vscode.Event<void>;
+}
+
+export interface GitInputBox {
+    value: string;
+}
+
+export interface GitRepository {
+    readonly rootUri: vscode.Uri;
+    readonly state: GitRepositoryState;
+    readonly inputBox: GitInputBox;
+    getCommit(ref: string): Promise<GitCommit>;
+    getConfig(key: string): Promise<string>;
+    createBranch(name: string, checkout: boolean, ref?: string): Promise<void>;
+    checkout(treeish: string): Promise<void>;
+}
+
+export interface GitAPI {
+    readonly repositories: GitRepository[];
+    readonly onDidOpenRepository: vscode.Event<GitRepository>;
+    readonly onDidCloseRepository: vscode.Event<GitRepository>;
+    getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitExtension {
+    getAPI(version: 1): GitAPI;
+}
+
+/**
+ * Get the git extension's API, activating the extension if needed
+ * @returns The API, or undefined if git support is disabled or unavailable
+ */
+export async function getGitApi(): Promise<GitAPI | undefined> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) {
+        return undefined;
+    }
+
+    try {
+        const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+        return gitExtension.getAPI(1);
+    } catch {
+        // git.enabled is false, or git isn't installed
+        return undefined;
+    }
+}
+
+/**
+ * Pick the repository to work in: the only one, the one of the active editor, or ask
+ * @returns The repository, or undefined if there is none or the user cancelled
+ */
+export async function pickRepository(git: GitAPI): Promise<GitRepository | undefined> {
+    if (git.repositories.length <= 1) {
+        return git.repositories[0];
+    }
+
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeRepository = activeUri ? git.getRepository(activeUri) : null;
+    if (activeRepository) {
+        return activeRepository;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        git.repositories.map(repository => ({
+            label: path.basename(repository.rootUri.fsPath),
+            description: repository.rootUri.fsPath,
+            repository
+        })),
+        { placeHolder: 'Select a repository' }
+    );
+    return selected?.repository;
+}
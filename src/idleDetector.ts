@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { ClickUpService } from './clickupService';
+import { formatTime } from './timeFormat';
+
+// How often to check for idleness while a timer runs
+const CHECK_INTERVAL = 30 * 1000;
+
+/**
+ * Watches editor activity while a timer runs and, after clickupTasks.idleTimeout minutes without
+ * any, asks whether to keep the idle time, discard it (the entry ends at the last activity) or
+ * stop the timer now
+ */
+export class IdleDetector implements vscode.Disposable {
+    private lastActivity: number = Date.now();
+    private prompting: boolean = false;
+    private checkInterval: NodeJS.Timeout;
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param onTimerStopped Called with the task whose timer was stopped or trimmed
+     */
+    constructor(
+        private clickUpService: ClickUpService,
+        private log: (message: string) => void,
+        private onTimerStopped: (taskId: string) => void
+    ) {
+        const recordActivity = () => this.recordActivity();
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => {
+                // Output channels and other non-file documents change without the user doing anything
+                if (event.document.uri.scheme === 'file' || event.document.uri.scheme === 'untitled') {
+                    recordActivity();
+                }
+            }),
+            vscode.window.onDidChangeTextEditorSelection(recordActivity),
+            vscode.window.onDidChangeActiveTextEditor(recordActivity),
+            vscode.window.onDidChangeWindowState(state => {
+                if (state.focused) {
+                    recordActivity();
+                }
+            })
+        );
+
+        this.checkInterval = setInterval(() => this.check(), CHECK_INTERVAL);
+    }
+
+    dispose(): void {
+        clearInterval(this.checkInterval);
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private recordActivity(): void {
+        // While the question is open, the answer decides what happens to the idle time
+        if (!this.prompting) {
+            this.lastActivity = Date.now();
+        }
+    }
+
+    private getIdleTimeout(): number {
+        const minutes = vscode.workspace.getConfiguration('clickupTasks').get<number>('idleTimeout', 15);
+        return minutes > 0 ? minutes * 60 * 1000 : 0;
+    }
+
+    private async check(): Promise<void> {
+        const idleTimeout = this.getIdleTimeout();
+        const taskId = this.clickUpService.getTrackedTaskId();
+        if (this.prompting || !idleTimeout || !taskId) {
+            return;
+        }
+
+        const idleSince = this.lastActivity;
+        if (Date.now() - idleSince < idleTimeout) {
+            return;
+        }
+
+        this.prompting = true;
+        try {
+            const idleFor = formatTime(Date.now() - idleSince);
+            this.log(`Idle for ${idleFor} while tracking task ${taskId}`);
+            const action = await vscode.window.showWarningMessage(
+                `You've been idle for ${idleFor} while a ClickUp timer is running. What should happen to the idle time?`,
+                'Keep Idle Time',
+                'Discard Idle Time',
+                'Stop Timer'
+            );
+
+            // The timer may have been stopped or switched while the question was open
+            if (this.clickUpService.getTrackedTaskId() !== taskId) {
+                return;
+            }
+
+            if (action === 'Discard Idle Time') {
+                const stoppedTaskId = await this.clickUpService.stopTimeTracking(idleSince);
+                this.log(`Discarded idle time: timer stopped at ${new Date(idleSince).toLocaleTimeString()}`);
+                this.onTimerStopped(stoppedTaskId || taskId);
+            } else if (action === 'Stop Timer') {
+                const stoppedTaskId = await this.clickUpService.stopTimeTracking();
+                this.log('Stopped timer after idle time, idle time kept');
+                this.onTimerStopped(stoppedTaskId || taskId);
+            } else {
+                this.log('Kept idle time');
+            }
+        } catch (error: any) {
+            this.log(`Error handling idle time: ${error.message}`);
+            vscode.window.showErrorMessage(`Failed to update the ClickUp timer: ${error.message}`);
+        } finally {
+            this.prompting = false;
+            this.lastActivity = Date.now();
+        }
+    }
+}
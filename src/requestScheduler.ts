@@ -0,0 +1,149 @@
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+// Maximum number of retries for a single request (429 or 5xx)
+const MAX_RETRIES = 4;
+// Exponential backoff: 1s, 2s, 4s, 8s... capped at 30s
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30 * 1000;
+// ClickUp's rate limit window is one minute, so never wait longer than that for a reset
+const MAX_RATE_LIMIT_WAIT = 60 * 1000;
+// 5xx errors are only retried for methods that are safe to send twice
+const IDEMPOTENT_METHODS = ['get', 'head', 'put', 'delete'];
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Request layer for all ClickUp API calls.
+ * - Runs at most `maxConcurrent` requests at the same time
+ * - Reads X-RateLimit-Remaining / X-RateLimit-Reset and holds new requests until the reset
+ *   once the per-minute budget is used up
+ * - Retries 429 responses (and 5xx responses for idempotent methods) with backoff
+ */
+export class RequestScheduler {
+    private activeRequests = 0;
+    private waiting: Array<() => void> = [];
+    // No request is sent before this timestamp (milliseconds)
+    private pausedUntil = 0;
+    // Clients whose adapter is already routed through this scheduler
+    private attachedClients = new WeakSet<AxiosInstance>();
+
+    constructor(
+        private maxConcurrent: number,
+        private log: (message: string) => void
+    ) {}
+
+    setMaxConcurrent(maxConcurrent: number): void {
+        this.maxConcurrent = Math.max(1, Math.floor(maxConcurrent) || 1);
+    }
+
+    /**
+     * Route every request made through an axios instance via this scheduler
+     * Attaching the same instance again does nothing
+     * @param client The axios instance to wrap
+     */
+    attach(client: AxiosInstance): void {
+        // Wrapping twice would count every request twice against the limits
+        if (this.attachedClients.has(client)) {
+            return;
+        }
+        this.attachedClients.add(client);
+        const baseAdapter = axios.getAdapter(client.defaults.adapter);
+        client.defaults.adapter = (config: InternalAxiosRequestConfig) => this.run(() => baseAdapter(config), config);
+    }
+
+    private async run(send: () => Promise<AxiosResponse>, config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+        for (let attempt = 0; ; attempt++) {
+            await this.acquire();
+            let retryDelay = 0;
+            try {
+                const response = await send();
+                this.updateRateLimit(response.headers);
+                return response;
+            } catch (error: any) {
+                if (error.response) {
+                    this.updateRateLimit(error.response.headers);
+                }
+
+                const delay = this.getRetryDelay(error, config, attempt);
+                if (delay === null) {
+                    throw error;
+                }
+                retryDelay = delay;
+                this.log(`${(config.method || 'get').toUpperCase()} ${config.url} failed with ${error.response.status}, retrying in ${Math.ceil(retryDelay / 1000)}s (attempt ${attempt + 1}/${MAX_RETRIES})`);
+            } finally {
+                this.release();
+            }
+            await sleep(retryDelay);
+        }
+    }
+
+    /**
+     * Wait for a free slot and for any rate limit pause to end
+     */
+    private async acquire(): Promise<void> {
+        while (this.activeRequests >= this.maxConcurrent) {
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        }
+        this.activeRequests++;
+
+        const pause = this.pausedUntil - Date.now();
+        if (pause > 0) {
+            await sleep(pause);
+        }
+    }
+
+    private release(): void {
+        this.activeRequests--;
+        const next = this.waiting.shift();
+        if (next) {
+            next();
+        }
+    }
+
+    /**
+     * Pause new requests until the reset time once the rate limit budget is used up
+     * @param headers Response headers (X-RateLimit-Reset is a unix timestamp in seconds)
+     */
+    private updateRateLimit(headers: any): void {
+        const remaining = Number(headers?.['x-ratelimit-remaining']);
+        const reset = Number(headers?.['x-ratelimit-reset']);
+        if (!Number.isFinite(remaining) || !Number.isFinite(reset) || remaining > 0) {
+            return;
+        }
+
+        const resetAt = Math.min(reset * 1000, Date.now() + MAX_RATE_LIMIT_WAIT);
+        if (resetAt > this.pausedUntil) {
+            this.pausedUntil = resetAt;
+            this.log(`Rate limit reached, holding requests until ${new Date(resetAt).toISOString()}`);
+        }
+    }
+
+    /**
+     * @returns Milliseconds to wait before retrying, or null if the request should not be retried
+     */
+    private getRetryDelay(error: any, config: InternalAxiosRequestConfig, attempt: number): number | null {
+        const status = error.response?.status;
+        if (!status || attempt >= MAX_RETRIES) {
+            return null;
+        }
+
+        const backoff = Math.min(BASE_RETRY_DELAY * 2 ** attempt, MAX_RETRY_DELAY) + Math.random() * 250;
+
+        if (status === 429) {
+            // Prefer the server's hint (Retry-After in seconds, or the rate limit reset) over plain backoff
+            const retryAfter = Number(error.response.headers?.['retry-after']) * 1000 || 0;
+            const untilReset = this.pausedUntil - Date.now();
+            const delay = Math.min(Math.max(backoff, retryAfter, untilReset), MAX_RATE_LIMIT_WAIT);
+            this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+            return delay;
+        }
+
+        if (status >= 500 && IDEMPOTENT_METHODS.includes((config.method || 'get').toLowerCase())) {
+            return backoff;
+        }
+
+        return null;
+    }
+}
@@ -0,0 +1,300 @@
+import * as vscode from 'vscode';
+import { ClickUpService } from './clickupService';
+import { getGitApi, GitBranch, GitCommit, GitRepository } from './gitApi';
+import { formatTime, parseTime } from './timeFormat';
+import { formatTaskReference } from './taskReference';
+
+const PROCESSED_COMMITS_KEY = 'clickupTasks.processedCommits';
+// Enough to cover any realistic amount of local commits between restarts
+const MAX_PROCESSED_COMMITS = 1000;
+// A commit made here was authored moments before HEAD moved to it; older ones were made elsewhere
+const MAX_COMMIT_AGE = 10 * 60 * 1000;
+
+const TASK_REFERENCE_PATTERN = /\bCU-([0-9a-z]+)\b/gi;
+const TIME_DIRECTIVE_PATTERN = /(^|\s)#time\s+(\S+)/gi;
+const HASHTAG_PATTERN = /(^|\s)#([a-z][\w-]*)/gi; // Must start with a letter, so "#12" issue references are ignored
+
+/**
+ * What a commit message may ask to do, e.g. "CU-abc123 #review #time 45m Fixed the parser"
+ * Whether a hashtag is a status directive depends on the statuses of the task's list, so that
+ * is only decided when the commit is processed
+ */
+export interface SmartCommit {
+    taskIds: string[];
+    time?: number; // Milliseconds
+    comment: boolean; // #comment was given: post the message even without other directives
+    hashtags: string[]; // Every other #word as written, e.g. "review", "in-progress" or "include"
+}
+
+/**
+ * Parse the task references, #time and #comment directives and other hashtags of a commit message
+ * @returns The parts, or undefined if the message references no task
+ */
+export function parseSmartCommit(message: string): SmartCommit | undefined {
+    const taskIds = Array.from(new Set(Array.from(message.matchAll(TASK_REFERENCE_PATTERN), match => match[1].toLowerCase())));
+    if (taskIds.length === 0) {
+        return undefined;
+    }
+
+    let time: number | undefined;
+    const rest = message.replace(TIME_DIRECTIVE_PATTERN, (_match, leading: string, duration: string) => {
+        time = (time || 0) + (parseTime(duration) || 0);
+        return leading;
+    });
+
+    let comment = false;
+    const hashtags: string[] = [];
+    for (const match of rest.matchAll(HASHTAG_PATTERN)) {
+        if (match[2].toLowerCase() === 'comment') {
+            comment = true;
+        } else {
+            hashtags.push(match[2]);
+        }
+    }
+
+    return { taskIds, time: time || undefined, comment, hashtags };
+}
+
+/**
+ * The text to post as a comment: the message without task references and directives
+ * Hashtags that aren't directives (e.g. "#include") stay in the text
+ * @param status The hashtag that was used as a status directive, if any
+ * @returns The text, or undefined if nothing is left
+ */
+export function getSmartCommitComment(message: string, status?: string): string | undefined {
+    const comment = message
+        .replace(TIME_DIRECTIVE_PATTERN, (_match, leading: string) => leading)
+        .replace(HASHTAG_PATTERN, (match, leading: string, hashtag: string) =>
+            hashtag.toLowerCase() === 'comment' || hashtag === status ? leading : match
+        )
+        .replace(TASK_REFERENCE_PATTERN, '')
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .join('\n')
+        .replace(/^[\s:-]+/, '')
+        .trim();
+    return comment || undefined;
+}
+
+/**
+ * Compare status names the way they are written in commit directives
+ */
+function normalizeStatus(status: string): string {
+    return status.toLowerCase().replace(/[-_\s]+/g, ' ').trim();
+}
+
+interface WatchedRepository {
+    headName: string | undefined;
+    headCommit: string | undefined;
+    subscription: vscode.Disposable;
+}
+
+/**
+ * Acts on smart-commit directives after a local commit: changes the status, logs time and
+ * posts the rest of the message as a comment. Processed commits are remembered in
+ * globalState so a commit is never acted on twice
+ */
+export class SmartCommitWatcher implements vscode.Disposable {
+    private repositories: Map<GitRepository, WatchedRepository> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param onTasksChanged Called after ClickUp was updated for a commit
+     */
+    constructor(
+        private clickUpService: ClickUpService,
+        private storage: vscode.Memento,
+        private log: (message: string) => void,
+        private onTasksChanged: () => void
+    ) {}
+
+    /**
+     * Start watching repositories; does nothing if git isn't available
+     */
+    async start(): Promise<void> {
+        const git = await getGitApi();
+        if (!git) {
+            return;
+        }
+
+        git.repositories.forEach(repository => this.watch(repository));
+        this.disposables.push(
+            git.onDidOpenRepository(repository => this.watch(repository)),
+            git.onDidCloseRepository(repository => {
+                this.repositories.get(repository)?.subscription.dispose();
+                this.repositories.delete(repository);
+            })
+        );
+    }
+
+    dispose(): void {
+        this.repositories.forEach(watched => watched.subscription.dispose());
+        this.repositories.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private watch(repository: GitRepository): void {
+        if (this.repositories.has(repository)) {
+            return;
+        }
+
+        this.repositories.set(repository, {
+            headName: repository.state.HEAD?.name,
+            headCommit: repository.state.HEAD?.commit,
+            subscription: repository.state.onDidChange(() => this.onRepositoryChanged(repository))
+        });
+    }
+
+    private async onRepositoryChanged(repository: GitRepository): Promise<void> {
+        const watched = this.repositories.get(repository);
+        const head = repository.state.HEAD;
+        if (!watched || !head?.commit || head.commit === watched.headCommit) {
+            return;
+        }
+
+        const previousName = watched.headName;
+        const previousCommit = watched.headCommit;
+        watched.headName = head.name;
+        watched.headCommit = head.commit;
+
+        // A checkout moves HEAD to another branch, not a new commit
+        if (!previousCommit || head.name !== previousName) {
+            return;
+        }
+        if (!vscode.workspace.getConfiguration('clickupTasks').get<boolean>('smartCommits', true)) {
+            return;
+        }
+
+        try {
+            const commit = await repository.getCommit(head.commit);
+            if (await this.isLocalCommit(repository, head, commit, previousCommit)) {
+                await this.process(commit);
+            }
+        } catch (error: any) {
+            this.log(`Smart commit: could not read commit ${head.commit}: ${error.message}`);
+        }
+    }
+
+    /**
+     * A commit made here sits directly on the previous HEAD, isn't on the upstream yet, was authored
+     * just now and by the configured user. This rules out amends, rebases and resets, commits pulled
+     * from others, and your own commits from another machine that are pulled or cherry-picked here
+     * (the processed commits are only remembered per machine)
+     */
+    private async isLocalCommit(repository: GitRepository, head: GitBranch, commit: GitCommit, previousCommit: string): Promise<boolean> {
+        if (!commit.parents.includes(previousCommit)) {
+            return false;
+        }
+        if (head.upstream && !head.ahead) {
+            return false;
+        }
+        if (commit.authorDate && Date.now() - commit.authorDate.getTime() > MAX_COMMIT_AGE) {
+            return false;
+        }
+
+        try {
+            const userEmail = await repository.getConfig('user.email');
+            return !commit.authorEmail || !userEmail || commit.authorEmail.toLowerCase() === userEmail.trim().toLowerCase();
+        } catch {
+            return true;
+        }
+    }
+
+    private async process(commit: GitCommit): Promise<void> {
+        const processed = this.storage.get<string[]>(PROCESSED_COMMITS_KEY, []);
+        if (processed.includes(commit.hash)) {
+            return;
+        }
+
+        const smartCommit = parseSmartCommit(commit.message);
+        if (!smartCommit || (!smartCommit.time && !smartCommit.comment && smartCommit.hashtags.length === 0)) {
+            return;
+        }
+
+        // Remember the commit before acting, so a failure halfway can't cause duplicates later
+        await this.storage.update(PROCESSED_COMMITS_KEY, [...processed, commit.hash].slice(-MAX_PROCESSED_COMMITS));
+
+        const shortHash = commit.hash.slice(0, 7);
+        const commitTime = commit.authorDate?.getTime() || Date.now();
+        let changed = false;
+
+        for (const [index, taskId] of smartCommit.taskIds.entries()) {
+            const reference = formatTaskReference(taskId);
+            // The time was spent once, so it goes to the first referenced task only
+            const time = index === 0 ? smartCommit.time : undefined;
+
+            let status: { hashtag: string; name: string } | undefined;
+            if (smartCommit.hashtags.length > 0) {
+                try {
+                    status = await this.resolveStatus(taskId, smartCommit.hashtags);
+                } catch (error: any) {
+                    this.log(`Smart commit ${shortHash}: failed to get the statuses of ${reference}: ${error.message}`);
+                }
+            }
+
+            // Hashtags that aren't statuses of the task's list (e.g. "#include") are just text
+            if (!status && !time && !smartCommit.comment) {
+                continue;
+            }
+            this.log(`Smart commit ${shortHash}: ${reference}`);
+            changed = true;
+            const comment = getSmartCommitComment(commit.message, status?.hashtag);
+
+            if (status) {
+                try {
+                    await this.clickUpService.updateTaskStatus(taskId, status.name);
+                    this.log(`Smart commit ${shortHash}: moved ${reference} to "${status.name}"`);
+                } catch (error: any) {
+                    this.log(`Smart commit ${shortHash}: failed to change status of ${reference}: ${error.message}`);
+                }
+            }
+
+            if (time) {
+                try {
+                    await this.clickUpService.addTimeEntry(taskId, {
+                        start: commitTime - time,
+                        duration: time,
+                        description: comment?.split('\n')[0]
+                    });
+                    this.log(`Smart commit ${shortHash}: logged ${formatTime(time)} on ${reference}`);
+                } catch (error: any) {
+                    this.log(`Smart commit ${shortHash}: failed to log time on ${reference}: ${error.message}`);
+                }
+            }
+
+            if (comment) {
+                try {
+                    await this.clickUpService.addTaskComment(taskId, `${comment}\n\n(commit ${shortHash})`);
+                    this.log(`Smart commit ${shortHash}: commented on ${reference}`);
+                } catch (error: any) {
+                    this.log(`Smart commit ${shortHash}: failed to comment on ${reference}: ${error.message}`);
+                }
+            }
+        }
+
+        if (changed) {
+            this.onTasksChanged();
+        }
+    }
+
+    /**
+     * Find the first hashtag that names a status of the task's list
+     * @returns The hashtag as written and the status name as defined on the list, or undefined if none match
+     */
+    private async resolveStatus(taskId: string, hashtags: string[]): Promise<{ hashtag: string; name: string } | undefined> {
+        const task = await this.clickUpService.getTask(taskId);
+        if (!task?.list) {
+            return undefined;
+        }
+
+        const statuses = await this.clickUpService.getListStatuses(task.list.id);
+        for (const hashtag of hashtags) {
+            const wanted = normalizeStatus(hashtag);
+            const status = statuses.find(status => normalizeStatus(status.status) === wanted);
+            if (status) {
+                return { hashtag, name: status.status };
+            }
+        }
+        return undefined;
+    }
+}
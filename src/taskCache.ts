@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+import { ClickUpTask } from './clickupService';
+
+const CACHE_KEY = 'clickupTasks.taskCache';
+
+export interface CachedTasks {
+    tasks: ClickUpTask[];
+    lastSynced: number; // Timestamp (milliseconds) of the refresh that produced these tasks
+    parentTasks?: ClickUpTask[]; // Parents of in-progress subtasks that are not in progress themselves
+}
+
+/**
+ * Persists the last good task list so the tree can be drawn right away on activation,
+ * before the first refresh has finished
+ */
+export class TaskCache {
+    constructor(private storage: vscode.Memento) {}
+
+    load(): CachedTasks | undefined {
+        const cached = this.storage.get<CachedTasks>(CACHE_KEY);
+        if (!cached || !Array.isArray(cached.tasks)) {
+            return undefined;
+        }
+        return cached;
+    }
+
+    async save(tasks: ClickUpTask[], lastSynced: number, parentTasks: ClickUpTask[] = []): Promise<void> {
+        await this.storage.update(CACHE_KEY, { tasks, lastSynced, parentTasks });
+    }
+
+    async clear(): Promise<void> {
+        await this.storage.update(CACHE_KEY, undefined);
+    }
+}
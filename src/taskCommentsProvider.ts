@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import { ClickUpComment, ClickUpService } from './clickupService';
+import { formatDateTime } from './timeFormat';
+
+/**
+ * A comment on the shown task, or a reply to one
+ */
+export class ClickUpCommentItem extends vscode.TreeItem {
+    constructor(
+        public readonly comment: ClickUpComment,
+        public readonly taskId: string,
+        // The comment that replies go to: the comment itself, or the comment a reply belongs to
+        public readonly threadId: string,
+        flag: 'new' | 'newReplies' | undefined
+    ) {
+        const firstLine = comment.text.trim().split('\n')[0];
+        super(comment.user.username, comment.replyCount > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+
+        // Stable ID so the expanded state survives refreshes
+        this.id = `comment:${comment.id}`;
+        const flagText = flag === 'new' ? 'New · ' : flag === 'newReplies' ? 'New replies · ' : '';
+        this.description = `${flagText}${firstLine}`;
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendText(`${comment.user.username}, ${formatDateTime(comment.date)}`);
+        if (comment.replyCount > 0) {
+            tooltip.appendText(` · ${comment.replyCount} ${comment.replyCount === 1 ? 'reply' : 'replies'}`);
+        }
+        // Comments are plain text; only fenced code blocks (e.g. posted selections) are rendered
+        tooltip.appendMarkdown('\n\n---\n\n');
+        tooltip.appendMarkdown(comment.text.split(/(```[\s\S]*?```)/).map((part, index) =>
+            index % 2 === 1 ? `\n${part}\n` : new vscode.MarkdownString().appendText(part).value
+        ).join(''));
+        this.tooltip = tooltip;
+        this.iconPath = flag
+            ? new vscode.ThemeIcon('comment-unresolved', new vscode.ThemeColor('charts.orange'))
+            : new vscode.ThemeIcon(threadId === comment.id ? 'comment' : 'reply');
+        this.contextValue = 'clickupComment';
+    }
+}
+
+/**
+ * Comments of the task selected in the tasks view, newest first, with replies nested
+ * Comments (and replies) that appeared since the previous load of the same task are flagged
+ */
+export class TaskCommentsProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private task: { id: string; name: string } | undefined;
+    // Undefined until loaded; reloaded by refresh()
+    private comments: ClickUpComment[] | undefined;
+    private loadError: string | undefined;
+    // Replies by comment ID, loaded when a comment is expanded
+    private replies: Map<string, ClickUpComment[]> = new Map();
+    // Per task: the comment IDs and their reply counts at the previous load
+    private seen: Map<string, Map<string, number>> = new Map();
+    private flags: Map<string, 'new' | 'newReplies'> = new Map();
+    // Incremented on every load so a slower, older load can't overwrite a newer one
+    private loadGeneration: number = 0;
+
+    constructor(private clickUpService: ClickUpService) {}
+
+    getTask(): { id: string; name: string } | undefined {
+        return this.task;
+    }
+
+    /**
+     * Number of comments flagged as new (or with new replies) since the previous load
+     */
+    getNewCommentCount(): number {
+        return this.flags.size;
+    }
+
+    /**
+     * Show the comments of another task (or none)
+     */
+    setTask(task: { id: string; name: string } | undefined): void {
+        if (task?.id === this.task?.id) {
+            return;
+        }
+        this.task = task ? { id: task.id, name: task.name } : undefined;
+        this.comments = undefined;
+        this.loadError = undefined;
+        this.replies.clear();
+        this.flags.clear();
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Reload the comments of the shown task and flag the ones that are new
+     */
+    async refresh(): Promise<void> {
+        const task = this.task;
+        if (!task) {
+            return;
+        }
+
+        const generation = ++this.loadGeneration;
+        try {
+            const comments = await this.clickUpService.getTaskComments(task.id);
+            if (generation !== this.loadGeneration || this.task?.id !== task.id) {
+                return;
+            }
+            this.comments = comments;
+            this.loadError = undefined;
+            this.updateFlags(task.id, comments);
+        } catch (error: any) {
+            if (generation !== this.loadGeneration || this.task?.id !== task.id) {
+                return;
+            }
+            this.comments = [];
+            this.loadError = error.message;
+            this.flags.clear();
+        }
+        this.replies.clear();
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        const task = this.task;
+        if (!task) {
+            return [this.createMessageItem('Select a task to see its comments')];
+        }
+
+        if (element instanceof ClickUpCommentItem) {
+            return this.getReplyItems(element);
+        }
+        if (element) {
+            return [];
+        }
+
+        if (this.comments === undefined) {
+            await this.refresh();
+        }
+        if (this.loadError) {
+            const errorItem = this.createMessageItem('Failed to load comments');
+            errorItem.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+            errorItem.tooltip = this.loadError;
+            return [errorItem];
+        }
+        if (!this.comments || this.comments.length === 0) {
+            return [this.createMessageItem(`No comments on "${task.name}"`)];
+        }
+        return this.comments.map(comment => new ClickUpCommentItem(comment, task.id, comment.id, this.flags.get(comment.id)));
+    }
+
+    dispose(): void {
+        this._onDidChangeTreeData.dispose();
+    }
+
+    private async getReplyItems(item: ClickUpCommentItem): Promise<vscode.TreeItem[]> {
+        let replies = this.replies.get(item.comment.id);
+        if (!replies) {
+            try {
+                replies = await this.clickUpService.getCommentReplies(item.comment.id);
+                this.replies.set(item.comment.id, replies);
+            } catch (error: any) {
+                const errorItem = this.createMessageItem('Failed to load replies');
+                errorItem.tooltip = error.message;
+                return [errorItem];
+            }
+        }
+        return replies.map(reply => new ClickUpCommentItem(reply, item.taskId, item.comment.id, undefined));
+    }
+
+    private updateFlags(taskId: string, comments: ClickUpComment[]): void {
+        const previous = this.seen.get(taskId);
+        this.flags.clear();
+        if (previous) {
+            comments.forEach(comment => {
+                const previousReplyCount = previous.get(comment.id);
+                if (previousReplyCount === undefined) {
+                    this.flags.set(comment.id, 'new');
+                } else if (comment.replyCount > previousReplyCount) {
+                    this.flags.set(comment.id, 'newReplies');
+                }
+            });
+        }
+        // The first load of a task is the baseline
+        this.seen.set(taskId, new Map(comments.map(comment => [comment.id, comment.replyCount])));
+    }
+
+    private createMessageItem(message: string): vscode.TreeItem {
+        return new vscode.TreeItem(message, vscode.TreeItemCollapsibleState.None);
+    }
+}
+
+/**
+ * Build a comment that quotes an editor selection as a fenced code block with its file and lines
+ * @param message Optional text to put above the code
+ */
+export function formatSelectionComment(document: vscode.TextDocument, selection: vscode.Selection, message?: string): string {
+    const code = document.getText(selection).replace(/\s+$/, '');
+    const firstLine = selection.start.line + 1;
+    // A selection that ends at the start of a line doesn't include that line
+    const lastLine = selection.end.character === 0 && selection.end.line > selection.start.line ? selection.end.line : selection.end.line + 1;
+    const lines = firstLine === lastLine ? `line ${firstLine}` : `lines ${firstLine}-${lastLine}`;
+    const path = document.uri.scheme === 'file' ? vscode.workspace.asRelativePath(document.uri) : document.uri.toString();
+
+    // The fence must be longer than any run of backticks in the code
+    const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+
+    const quote = `${path} (${lines}):\n${fence}${document.languageId}\n${code}\n${fence}`;
+    return message?.trim() ? `${message.trim()}\n\n${quote}` : quote;
+}
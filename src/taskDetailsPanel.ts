@@ -0,0 +1,301 @@
+import * as vscode from 'vscode';
+import { ClickUpComment, ClickUpService, ClickUpTaskDetails, ClickUpTimeEntry } from './clickupService';
+import { ClickUpTasksProvider } from './clickupTasksProvider';
+import { formatDateTime, formatTime } from './timeFormat';
+import { formatTaskReference } from './taskReference';
+
+// How many entries the "Recent Activity" section shows
+const MAX_ACTIVITY_ITEMS = 15;
+
+interface ActivityItem {
+    date: number;
+    icon: string;
+    text: string;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function formatTimestamp(value: string | number | null | undefined): string {
+    const timestamp = Number(value);
+    return timestamp ? formatDateTime(timestamp) : '';
+}
+
+function getTaskUrl(taskId: string): string {
+    return `https://app.clickup.com/t/${taskId}`;
+}
+
+/**
+ * Format a custom field's value for display; the value's shape depends on the field type
+ * @returns The formatted value, or an empty string if the field is not set
+ */
+function formatCustomFieldValue(field: ClickUpTaskDetails['custom_fields'][number]): string {
+    const value = field.value;
+    if (value === undefined || value === null || value === '') {
+        return '';
+    }
+
+    const options: any[] = field.type_config?.options || [];
+    switch (field.type) {
+        case 'drop_down': {
+            // The value is the option's orderindex (or its ID)
+            const option = options.find(option => option.orderindex === Number(value) || option.id === value);
+            return option?.name ?? String(value);
+        }
+        case 'labels':
+            return (Array.isArray(value) ? value : [value])
+                .map((id: string) => options.find(option => option.id === id)?.label ?? id)
+                .join(', ');
+        case 'date':
+            return formatTimestamp(value);
+        case 'checkbox':
+            return value === true || value === 'true' ? 'Yes' : 'No';
+        case 'users':
+        case 'tasks':
+            return (Array.isArray(value) ? value : [value])
+                .map((item: any) => item?.username || item?.name || item?.id || String(item))
+                .join(', ');
+        case 'currency':
+            return `${value} ${field.type_config?.currency_type || ''}`.trim();
+        case 'location':
+            return value.formatted_address || '';
+        case 'emoji':
+            return `${value} / ${field.type_config?.count || 5}`;
+        default:
+            return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+}
+
+/**
+ * Webview with everything about a task: markdown description, priority, dates, assignees, tags,
+ * custom fields, checklists, dependencies and recent activity
+ * One panel per task; it reloads whenever ClickUpTasksProvider.updateTask fetches the task
+ */
+export class TaskDetailsPanel {
+    private static panels: Map<string, TaskDetailsPanel> = new Map();
+    private disposables: vscode.Disposable[] = [];
+    // Incremented on every load so an older, slower load can't overwrite a newer one
+    private loadGeneration: number = 0;
+
+    static show(
+        clickUpService: ClickUpService,
+        tasksProvider: ClickUpTasksProvider,
+        taskId: string,
+        taskName: string,
+        log: (message: string) => void
+    ): void {
+        const existing = TaskDetailsPanel.panels.get(taskId);
+        if (existing) {
+            existing.panel.reveal();
+            existing.load();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel('clickupTaskDetails', taskName, vscode.ViewColumn.Active, {
+            enableFindWidget: true
+        });
+        TaskDetailsPanel.panels.set(taskId, new TaskDetailsPanel(panel, clickUpService, tasksProvider, taskId, log));
+    }
+
+    private constructor(
+        private panel: vscode.WebviewPanel,
+        private clickUpService: ClickUpService,
+        tasksProvider: ClickUpTasksProvider,
+        private taskId: string,
+        private log: (message: string) => void
+    ) {
+        this.panel.webview.html = this.getMessageHtml('Loading...');
+        this.disposables.push(
+            panel.onDidDispose(() => this.dispose()),
+            tasksProvider.onDidUpdateTask(task => {
+                if (task.id === this.taskId) {
+                    this.load();
+                }
+            })
+        );
+        this.load();
+    }
+
+    private dispose(): void {
+        TaskDetailsPanel.panels.delete(this.taskId);
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private async load(): Promise<void> {
+        const generation = ++this.loadGeneration;
+        try {
+            const task = await this.clickUpService.getTaskDetails(this.taskId);
+            if (!task) {
+                if (generation === this.loadGeneration) {
+                    this.panel.webview.html = this.getMessageHtml(`Task ${formatTaskReference(this.taskId)} was not found. It may have been deleted.`);
+                }
+                return;
+            }
+
+            // Comments and time entries only make up the activity section, so failing to load them isn't fatal
+            const [comments, timeEntries, description] = await Promise.all([
+                this.clickUpService.getTaskComments(this.taskId).catch((error: any) => {
+                    this.log(`Task details: could not load comments of task ${this.taskId}: ${error.message}`);
+                    return [] as ClickUpComment[];
+                }),
+                this.clickUpService.getTaskTimeEntries(this.taskId).catch((error: any) => {
+                    this.log(`Task details: could not load time entries of task ${this.taskId}: ${error.message}`);
+                    return [] as ClickUpTimeEntry[];
+                }),
+                this.renderMarkdown(task.description)
+            ]);
+            if (generation !== this.loadGeneration) {
+                return;
+            }
+
+            this.panel.title = task.name;
+            this.panel.webview.html = this.getHtml(task, description, this.getActivity(task, comments, timeEntries));
+        } catch (error: any) {
+            this.log(`Error loading details of task ${this.taskId}: ${error.message}`);
+            if (generation === this.loadGeneration) {
+                this.panel.webview.html = this.getMessageHtml(`Failed to load the task: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Render markdown with VS Code's built-in markdown extension, falling back to plain text
+     */
+    private async renderMarkdown(markdown: string): Promise<string> {
+        if (!markdown.trim()) {
+            return '<p class="muted">No description</p>';
+        }
+        try {
+            return await vscode.commands.executeCommand<string>('markdown.api.render', markdown);
+        } catch {
+            return `<pre>${escapeHtml(markdown)}</pre>`;
+        }
+    }
+
+    /**
+     * ClickUp's API has no activity feed, so recent activity is put together from the
+     * task's dates, comments and time entries
+     */
+    private getActivity(task: ClickUpTaskDetails, comments: ClickUpComment[], timeEntries: ClickUpTimeEntry[]): ActivityItem[] {
+        const items: ActivityItem[] = [];
+        if (task.date_created) {
+            items.push({ date: Number(task.date_created), icon: '＋', text: `Created${task.creator ? ` by ${task.creator.username}` : ''}` });
+        }
+        if (task.date_closed) {
+            items.push({ date: Number(task.date_closed), icon: '✓', text: 'Closed' });
+        }
+        comments.forEach(comment => items.push({
+            date: comment.date,
+            icon: '💬',
+            text: `${comment.user.username}: ${comment.text.trim()}${comment.replyCount ? ` (${comment.replyCount} ${comment.replyCount === 1 ? 'reply' : 'replies'})` : ''}`
+        }));
+        timeEntries.forEach(entry => items.push({
+            date: entry.start,
+            icon: '⏱',
+            text: `${entry.end === undefined ? 'Tracking' : 'Tracked'} ${formatTime(entry.duration) || '0m'}${entry.description ? `: ${entry.description}` : ''}`
+        }));
+        return items.sort((a, b) => b.date - a.date).slice(0, MAX_ACTIVITY_ITEMS);
+    }
+
+    private getMessageHtml(message: string): string {
+        return this.wrapHtml(`<p class="muted">${escapeHtml(message)}</p>`);
+    }
+
+    private getHtml(task: ClickUpTaskDetails, description: string, activity: ActivityItem[]): string {
+        const row = (label: string, value: string) => value ? `<tr><th>${label}</th><td>${value}</td></tr>` : '';
+        const taskLink = (taskId: string) => `<a href="${getTaskUrl(taskId)}">${formatTaskReference(taskId)}</a>`;
+
+        const statusColor = task.status?.color || 'transparent';
+        const overview = [
+            row('Status', `<span class="dot" style="background:${escapeHtml(statusColor)}"></span>${escapeHtml(task.status?.status || 'Unknown')}`),
+            row('Priority', task.priority ? `<span class="dot" style="background:${escapeHtml(task.priority.color)}"></span>${escapeHtml(task.priority.priority)}` : ''),
+            row('Start Date', escapeHtml(formatTimestamp(task.start_date))),
+            row('Due Date', escapeHtml(formatTimestamp(task.due_date))),
+            row('Assignees', escapeHtml(task.assignees.map(assignee => assignee.username || String(assignee.id)).join(', '))),
+            row('Tags', task.tags.map(tag =>
+                `<span class="tag" style="background:${escapeHtml(tag.tag_bg || 'var(--vscode-badge-background)')};color:${escapeHtml(tag.tag_fg || 'var(--vscode-badge-foreground)')}">${escapeHtml(tag.name)}</span>`
+            ).join(' ')),
+            row('Time', escapeHtml([
+                formatTime(task.timeTracked || 0) || '0m',
+                task.time_estimate ? `of ${formatTime(task.time_estimate)} estimated` : ''
+            ].filter(Boolean).join(' '))),
+            row('Location', escapeHtml([task.space?.name, task.list?.name].filter(Boolean).join(' / ')))
+        ].join('');
+
+        const customFields = task.custom_fields
+            .map(field => row(escapeHtml(field.name), escapeHtml(formatCustomFieldValue(field))))
+            .join('');
+
+        const checklists = task.checklists.map(checklist => {
+            const items = [...checklist.items].sort((a, b) => (a.orderindex ?? 0) - (b.orderindex ?? 0));
+            const resolved = items.filter(item => item.resolved).length;
+            return `<h3>${escapeHtml(checklist.name)} <span class="muted">${resolved}/${items.length}</span></h3>
+                <ul class="checklist">${items.map(item =>
+                    `<li class="${item.resolved ? 'resolved' : ''}">${item.resolved ? '☑' : '☐'} ${escapeHtml(item.name)}</li>`
+                ).join('')}</ul>`;
+        }).join('');
+
+        // A dependency lists the waiting task as task_id and the blocking task as depends_on
+        const waitingOn = task.dependencies.filter(dependency => dependency.task_id === task.id).map(dependency => dependency.depends_on);
+        const blocking = task.dependencies.filter(dependency => dependency.depends_on === task.id).map(dependency => dependency.task_id);
+        const linked = task.linked_tasks.map(link => link.task_id === task.id ? link.link_id : link.task_id);
+        const dependencies = [
+            row('Waiting On', waitingOn.map(taskLink).join(', ')),
+            row('Blocking', blocking.map(taskLink).join(', ')),
+            row('Linked', linked.map(taskLink).join(', '))
+        ].join('');
+
+        const activityList = activity.map(item =>
+            `<li><span class="icon">${item.icon}</span><span class="muted">${escapeHtml(formatDateTime(item.date))}</span> ${escapeHtml(item.text)}</li>`
+        ).join('');
+
+        const section = (title: string, content: string) => content ? `<h2>${title}</h2>${content}` : '';
+        return this.wrapHtml(`
+            <h1>${escapeHtml(task.name)}</h1>
+            <p class="muted">${formatTaskReference(task.id)} · <a href="${escapeHtml(task.url || getTaskUrl(task.id))}">Open in ClickUp</a></p>
+            <table>${overview}</table>
+            ${section('Description', `<div class="description">${description}</div>`)}
+            ${section('Custom Fields', customFields ? `<table>${customFields}</table>` : '')}
+            ${section('Checklists', checklists)}
+            ${section('Dependencies', dependencies ? `<table>${dependencies}</table>` : '')}
+            ${section('Recent Activity', activityList ? `<ul class="activity">${activityList}</ul>` : '')}
+        `);
+    }
+
+    private wrapHtml(body: string): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https: data:; style-src 'unsafe-inline';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; max-width: 900px; }
+        h1 { margin-bottom: 4px; }
+        h2 { border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 4px; margin-top: 24px; }
+        table { border-collapse: collapse; }
+        th { text-align: left; padding: 3px 16px 3px 0; color: var(--vscode-descriptionForeground); font-weight: normal; vertical-align: top; }
+        td { padding: 3px 0; }
+        .muted { color: var(--vscode-descriptionForeground); }
+        .dot { display: inline-block; width: 9px; height: 9px; border-radius: 50%; margin-right: 6px; }
+        .tag { border-radius: 3px; padding: 1px 6px; font-size: 0.9em; }
+        .description img { max-width: 100%; }
+        .description pre { background: var(--vscode-textCodeBlock-background); padding: 8px; overflow-x: auto; }
+        ul.checklist, ul.activity { list-style: none; padding-left: 0; }
+        ul.checklist li.resolved { color: var(--vscode-descriptionForeground); text-decoration: line-through; }
+        ul.activity li { margin-bottom: 4px; white-space: pre-wrap; }
+        ul.activity .icon { display: inline-block; width: 1.6em; }
+    </style>
+</head>
+<body>
+    ${body}
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import { ClickUpService } from './clickupService';
+import { formatTaskReference } from './taskReference';
+
+export const TASK_FILE_SCHEME = 'clickup';
+
+const DESCRIPTION_FILE = 'description.md';
+const DESCRIPTION_PATH_PATTERN = /^\/task\/([^/]+)\/description\.md$/;
+const TASK_DIRECTORY_PATTERN = /^\/task\/([^/]+)\/?$/;
+
+/**
+ * The URI under which a task's description can be opened, e.g. clickup:/task/abc123/description.md
+ */
+export function getDescriptionUri(taskId: string): vscode.Uri {
+    return vscode.Uri.from({ scheme: TASK_FILE_SCHEME, path: `/task/${taskId}/${DESCRIPTION_FILE}` });
+}
+
+interface LoadedDescription {
+    content: Uint8Array;
+    // The task's date_updated when the description was read (or last saved)
+    dateUpdated: string | undefined;
+    ctime: number;
+}
+
+/**
+ * Serves task descriptions as markdown files under clickup:/task/{id}/description.md
+ * Saving pushes the description to ClickUp. If the task was changed in ClickUp since the
+ * description was read (its date_updated moved), saving asks before overwriting
+ */
+export class TaskFileSystemProvider implements vscode.FileSystemProvider {
+    private _onDidChangeFile: vscode.EventEmitter<vscode.FileChangeEvent[]> = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event;
+
+    private descriptions: Map<string, LoadedDescription> = new Map();
+
+    /**
+     * @param onDescriptionSaved Called with the task whose description was pushed to ClickUp
+     */
+    constructor(
+        private clickUpService: ClickUpService,
+        private log: (message: string) => void,
+        private onDescriptionSaved: (taskId: string) => void
+    ) {}
+
+    watch(): vscode.Disposable {
+        // Changes made in ClickUp are detected when saving instead
+        return new vscode.Disposable(() => {});
+    }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const taskId = this.getTaskId(uri);
+        if (!taskId) {
+            if (uri.path === '/' || uri.path === '/task' || TASK_DIRECTORY_PATTERN.test(uri.path)) {
+                return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+            }
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        const description = this.descriptions.get(taskId) || await this.load(uri, taskId);
+        return {
+            type: vscode.FileType.File,
+            ctime: description.ctime,
+            // Stays at the version that was read, so the editor's own "newer on disk" check never
+            // fires and conflicts are handled in writeFile
+            mtime: Number(description.dateUpdated) || description.ctime,
+            size: description.content.byteLength
+        };
+    }
+
+    readDirectory(uri: vscode.Uri): [string, vscode.FileType][] {
+        if (uri.path === '/' || uri.path === '') {
+            return [['task', vscode.FileType.Directory]];
+        }
+        if (uri.path === '/task' || uri.path === '/task/') {
+            return Array.from(this.descriptions.keys()).map(taskId => [taskId, vscode.FileType.Directory]);
+        }
+        if (TASK_DIRECTORY_PATTERN.test(uri.path)) {
+            return [[DESCRIPTION_FILE, vscode.FileType.File]];
+        }
+        throw vscode.FileSystemError.FileNotADirectory(uri);
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const taskId = this.getTaskId(uri);
+        if (!taskId) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        // Always read the latest version, e.g. when the editor reverts the file
+        return (await this.load(uri, taskId)).content;
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        const taskId = this.getTaskId(uri);
+        if (!taskId) {
+            throw vscode.FileSystemError.NoPermissions('Only task descriptions can be written');
+        }
+
+        const reference = formatTaskReference(taskId);
+        const loaded = this.descriptions.get(taskId);
+        let current;
+        try {
+            current = await this.clickUpService.getTask(taskId);
+        } catch (error: any) {
+            throw vscode.FileSystemError.Unavailable(`Could not check ${reference} for changes: ${error.message}`);
+        }
+        if (!current) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        if (loaded && current.date_updated !== loaded.dateUpdated) {
+            this.log(`Description of task ${taskId}: task changed in ClickUp since it was opened`);
+            const choice = await vscode.window.showWarningMessage(
+                `${reference} "${current.name}" was changed in ClickUp after you opened its description. Overwrite the description with your version?`,
+                { modal: true, detail: 'Use "Revert File" to discard your changes and load the current description instead.' },
+                'Overwrite'
+            );
+            if (choice !== 'Overwrite') {
+                throw vscode.FileSystemError.Unavailable(`Not saved: ${reference} was changed in ClickUp`);
+            }
+        }
+
+        const text = new TextDecoder().decode(content);
+        let dateUpdated;
+        try {
+            dateUpdated = await this.clickUpService.updateTaskDescription(taskId, text);
+        } catch (error: any) {
+            throw vscode.FileSystemError.Unavailable(error.message);
+        }
+
+        this.descriptions.set(taskId, {
+            content,
+            dateUpdated: dateUpdated || current.date_updated,
+            ctime: loaded?.ctime || Date.now()
+        });
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+        this.onDescriptionSaved(taskId);
+    }
+
+    createDirectory(): void {
+        throw vscode.FileSystemError.NoPermissions('Tasks can\'t be created as folders');
+    }
+
+    delete(): void {
+        throw vscode.FileSystemError.NoPermissions('Task descriptions can\'t be deleted');
+    }
+
+    rename(): void {
+        throw vscode.FileSystemError.NoPermissions('Task descriptions can\'t be renamed');
+    }
+
+    dispose(): void {
+        this._onDidChangeFile.dispose();
+    }
+
+    private getTaskId(uri: vscode.Uri): string | undefined {
+        return DESCRIPTION_PATH_PATTERN.exec(uri.path)?.[1];
+    }
+
+    private async load(uri: vscode.Uri, taskId: string): Promise<LoadedDescription> {
+        let task;
+        try {
+            task = await this.clickUpService.getTaskDetails(taskId);
+        } catch (error: any) {
+            throw vscode.FileSystemError.Unavailable(error.message);
+        }
+        if (!task) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        const description: LoadedDescription = {
+            content: new TextEncoder().encode(task.description),
+            dateUpdated: task.date_updated,
+            ctime: Number(task.date_created) || 0
+        };
+        this.descriptions.set(taskId, description);
+        return description;
+    }
+}
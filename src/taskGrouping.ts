@@ -0,0 +1,117 @@
+import { ClickUpTask } from './clickupService';
+
+export type GroupByMode = 'none' | 'space' | 'list' | 'status' | 'priority' | 'dueDate';
+
+export const GROUP_BY_MODES: Array<{ mode: GroupByMode; label: string }> = [
+    { mode: 'none', label: 'None' },
+    { mode: 'space', label: 'Space' },
+    { mode: 'list', label: 'List' },
+    { mode: 'status', label: 'Status' },
+    { mode: 'priority', label: 'Priority' },
+    { mode: 'dueDate', label: 'Due Date' }
+];
+
+export interface TaskGroup {
+    key: string;
+    label: string;
+    tasks: ClickUpTask[];
+}
+
+// Sort position of a group; lower comes first, ties are sorted by label
+interface GroupInfo {
+    key: string;
+    label: string;
+    order: number;
+}
+
+const PRIORITY_ORDER = ['urgent', 'high', 'normal', 'low'];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Work out which group a task belongs to for a grouping mode
+ */
+function getGroupInfo(task: ClickUpTask, mode: GroupByMode): GroupInfo {
+    switch (mode) {
+        case 'space':
+            return task.space
+                ? { key: task.space.id, label: task.space.name, order: 0 }
+                : { key: '', label: 'No Space', order: 1 };
+        case 'list':
+            return task.list
+                ? { key: task.list.id, label: task.list.name, order: 0 }
+                : { key: '', label: 'No List', order: 1 };
+        case 'status': {
+            const status = task.status?.status || 'Unknown';
+            return { key: status.toLowerCase(), label: status, order: task.status?.orderindex ?? Number.MAX_SAFE_INTEGER };
+        }
+        case 'priority': {
+            const priority = task.priority?.priority?.toLowerCase();
+            if (!priority) {
+                return { key: '', label: 'No Priority', order: PRIORITY_ORDER.length };
+            }
+            const order = PRIORITY_ORDER.indexOf(priority);
+            const label = priority.charAt(0).toUpperCase() + priority.slice(1);
+            return { key: priority, label, order: order >= 0 ? order : PRIORITY_ORDER.length - 1 };
+        }
+        case 'dueDate':
+            return getDueDateGroup(task.due_date);
+        default:
+            return { key: '', label: '', order: 0 };
+    }
+}
+
+/**
+ * Bucket a due date (milliseconds, as string) relative to today
+ */
+function getDueDateGroup(dueDate: string | undefined): GroupInfo {
+    const due = Number(dueDate);
+    if (!dueDate || !due) {
+        return { key: 'none', label: 'No Due Date', order: 5 };
+    }
+
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const today = startOfToday.getTime();
+
+    if (due < today) {
+        return { key: 'overdue', label: 'Overdue', order: 0 };
+    } else if (due < today + DAY) {
+        return { key: 'today', label: 'Today', order: 1 };
+    } else if (due < today + 2 * DAY) {
+        return { key: 'tomorrow', label: 'Tomorrow', order: 2 };
+    } else if (due < today + 7 * DAY) {
+        return { key: 'week', label: 'Next 7 Days', order: 3 };
+    }
+    return { key: 'later', label: 'Later', order: 4 };
+}
+
+/**
+ * Key of the group a task belongs to (used to detect tasks that move between groups)
+ */
+export function getGroupKey(task: ClickUpTask, mode: GroupByMode): string {
+    return getGroupInfo(task, mode).key;
+}
+
+/**
+ * Split tasks into sorted groups; task order inside a group is preserved
+ */
+export function groupTasks(tasks: ClickUpTask[], mode: GroupByMode): TaskGroup[] {
+    const groups = new Map<string, TaskGroup & { order: number }>();
+
+    tasks.forEach(task => {
+        const info = getGroupInfo(task, mode);
+        let group = groups.get(info.key);
+        if (!group) {
+            group = { key: info.key, label: info.label, order: info.order, tasks: [] };
+            groups.set(info.key, group);
+        }
+        // Statuses of different lists share a name but not always an order, keep the lowest
+        group.order = Math.min(group.order, info.order);
+        group.tasks.push(task);
+    });
+
+    return Array.from(groups.values())
+        .sort((a, b) => a.order - b.order || a.label.localeCompare(b.label))
+        .map(({ key, label, tasks }) => ({ key, label, tasks }));
+}
@@ -0,0 +1,72 @@
+import { ClickUpTask } from './clickupService';
+
+// Guards against very deep (or corrupt, cyclic) parent chains
+const MAX_PARENT_DEPTH = 10;
+
+export interface TaskNode {
+    task: ClickUpTask;
+    // True for a parent that is only shown because one of its subtasks is in the set
+    isContext: boolean;
+    children: TaskNode[];
+}
+
+/**
+ * Nest tasks under their parents using the `parent` field
+ * Parents that are not in `tasks` but are found in `knownTasks` are added as context nodes,
+ * so a subtask is never shown without the task it belongs to
+ * @param tasks The tasks to show (e.g. all in-progress tasks, or one group of them)
+ * @param knownTasks Every task we know about by ID, including parents fetched for context
+ * @returns Root nodes, in the order their first task appears in `tasks`
+ */
+export function buildTaskHierarchy(tasks: ClickUpTask[], knownTasks: Map<string, ClickUpTask>): TaskNode[] {
+    const taskIds = new Set(tasks.map(task => task.id));
+    const nodes = new Map<string, TaskNode>();
+    const roots: TaskNode[] = [];
+
+    for (const task of tasks) {
+        // Already added as the parent of an earlier task
+        if (nodes.has(task.id)) {
+            continue;
+        }
+
+        let current: TaskNode = { task, isContext: false, children: [] };
+        nodes.set(task.id, current);
+        const chain = new Set<string>([task.id]);
+
+        // Walk up until we reach a root or attach to a node that is already in the tree
+        while (true) {
+            const parentId = current.task.parent;
+            const parentTask = parentId ? knownTasks.get(parentId) : undefined;
+            if (!parentId || !parentTask || chain.has(parentId) || chain.size > MAX_PARENT_DEPTH) {
+                roots.push(current);
+                break;
+            }
+
+            const existingParent = nodes.get(parentId);
+            if (existingParent) {
+                existingParent.children.push(current);
+                break;
+            }
+
+            const parentNode: TaskNode = { task: parentTask, isContext: !taskIds.has(parentId), children: [current] };
+            nodes.set(parentId, parentNode);
+            chain.add(parentId);
+            current = parentNode;
+        }
+    }
+
+    return roots;
+}
+
+/**
+ * Find parent IDs that are referenced by `tasks` but not present in `knownTasks`
+ */
+export function getMissingParentIds(tasks: ClickUpTask[], knownTasks: Map<string, ClickUpTask>): string[] {
+    const missing = new Set<string>();
+    tasks.forEach(task => {
+        if (task.parent && !knownTasks.has(task.parent)) {
+            missing.add(task.parent);
+        }
+    });
+    return Array.from(missing);
+}
@@ -0,0 +1,73 @@
+// Default for clickupTasks.branchTaskIdPattern: the first group is the task ID
+export const DEFAULT_BRANCH_TASK_ID_PATTERN = 'CU-([0-9a-z]+)';
+
+/**
+ * Reference to a task as used in comments, branch names and commit messages, e.g. "CU-86b1abc2"
+ * This is also what the copy task ID commands put on the clipboard
+ */
+export function formatTaskReference(taskId: string): string {
+    return `CU-${taskId}`;
+}
+
+/**
+ * Build a commit message prefix for a task from a template
+ * Placeholders: {id} task ID, {name} task name
+ */
+export function formatCommitMessage(template: string, task: { id: string; name: string }): string {
+    return template
+        .replace(/\{id\}/g, task.id)
+        .replace(/\{name\}/g, task.name);
+}
+
+/**
+ * Turn a task name into something usable in a branch name: "Fix login (SSO)" -> "fix-login-sso"
+ */
+export function slugify(text: string, maxLength: number = 50): string {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '') // Drop accents
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .slice(0, maxLength)
+        .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Build a branch name for a task from a template
+ * Placeholders: {id} task ID, {slug} slugified task name, {list} slugified list name
+ */
+export function formatBranchName(template: string, task: { id: string; name: string; list?: { name: string } }): string {
+    return template
+        .replace(/\{id\}/g, task.id)
+        .replace(/\{slug\}/g, slugify(task.name))
+        .replace(/\{list\}/g, slugify(task.list?.name || ''))
+        // Placeholders that came out empty can leave separators behind
+        .replace(/([-_/])[-_/]+/g, '$1')
+        .replace(/^[-_/]+|[-_/]+$/g, '');
+}
+
+/**
+ * Find the task a branch belongs to, using a regex whose first capture group is the task ID
+ * (the whole match is used when the pattern has no groups)
+ * @param branchName Branch name, e.g. "CU-86b1abc2-fix-login"
+ * @param pattern Regex source, matched case-insensitively
+ * @returns The task ID, or undefined if the branch doesn't name a task or the pattern is invalid
+ */
+export function parseTaskIdFromBranch(branchName: string | undefined, pattern: string = DEFAULT_BRANCH_TASK_ID_PATTERN): string | undefined {
+    if (!branchName) {
+        return undefined;
+    }
+
+    let regex: RegExp;
+    try {
+        regex = new RegExp(pattern, 'i');
+    } catch {
+        return undefined;
+    }
+
+    const match = regex.exec(branchName);
+    if (!match) {
+        return undefined;
+    }
+    return (match[1] ?? match[0]).toLowerCase() || undefined;
+}
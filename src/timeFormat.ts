@@ -0,0 +1,138 @@
+/**
+ * Format time in milliseconds to a human-readable string like "3h23m" or "2m30s"
+ * @param milliseconds Time in milliseconds
+ * @param includeSeconds Whether to include seconds for short durations (default: false)
+ * @returns Formatted string like "3h23m" or "2m30s" or empty string if no time
+ */
+export function formatTime(milliseconds: number, includeSeconds: boolean = false): string {
+    if (!milliseconds || milliseconds <= 0) {
+        return '';
+    }
+    
+    const totalSeconds = Math.floor(milliseconds / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    
+    if (includeSeconds && hours === 0 && minutes < 1) {
+        // For very short durations, show seconds
+        return `${seconds}s`;
+    } else if (includeSeconds && hours === 0 && minutes > 0) {
+        // For short durations with minutes, show minutes and seconds
+        return `${minutes}m${seconds}s`;
+    } else if (hours > 0 && minutes > 0) {
+        return `${hours}h${minutes}m`;
+    } else if (hours > 0) {
+        return `${hours}h`;
+    } else if (minutes > 0) {
+        return `${minutes}m`;
+    } else if (includeSeconds && seconds > 0) {
+        return `${seconds}s`;
+    } else {
+        return '';
+    }
+}
+
+/**
+ * Format a countdown like "4:59" (minutes:seconds)
+ * @param seconds Remaining time in seconds
+ */
+export function formatCountdown(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Parse a duration like "1h30m", "90m", "1.5h", "2h 15m" or "45s" (the format produced by formatTime)
+ * A bare number is read as minutes
+ * @param input Duration text
+ * @returns Duration in milliseconds, or undefined if the text isn't a valid positive duration
+ */
+export function parseTime(input: string): number | undefined {
+    const text = input.trim().toLowerCase().replace(/\s+/g, '');
+    if (!text) {
+        return undefined;
+    }
+
+    if (/^\d+(\.\d+)?$/.test(text)) {
+        const minutes = parseFloat(text);
+        return minutes > 0 ? Math.round(minutes * 60 * 1000) : undefined;
+    }
+
+    const match = /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+)s)?$/.exec(text);
+    if (!match || (!match[1] && !match[2] && !match[3])) {
+        return undefined;
+    }
+
+    const hours = parseFloat(match[1] || '0');
+    const minutes = parseFloat(match[2] || '0');
+    const seconds = parseInt(match[3] || '0', 10);
+    const milliseconds = Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000);
+    return milliseconds > 0 ? milliseconds : undefined;
+}
+
+/**
+ * Format a timestamp for editing, e.g. "2024-05-14 09:30" (local time)
+ */
+export function formatDateTime(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Parse a local date and time in the format produced by formatDateTime ("2024-05-14 09:30")
+ * @returns Timestamp in milliseconds, or undefined if the text isn't a valid date and time
+ */
+export function parseDateTime(input: string): number | undefined {
+    const match = /^(\d{4})-(\d{1,2})-(\d{1,2})[ T](\d{1,2}):(\d{2})$/.exec(input.trim());
+    if (!match) {
+        return undefined;
+    }
+
+    const [year, month, day, hours, minutes] = match.slice(1).map(Number);
+    const date = new Date(year, month - 1, day, hours, minutes);
+    // Rejects e.g. 2024-02-31 or 25:00, which Date would roll over
+    if (date.getMonth() !== month - 1 || date.getDate() !== day || date.getHours() !== hours) {
+        return undefined;
+    }
+    return date.getTime();
+}
+
+/**
+ * Parse the time worked for a manual time entry: either a duration ("1h30m", "90m"; see parseTime)
+ * that ended just now, or a time range on the same day ("14:00-15:30")
+ * A range that ends before it starts is read as crossing midnight, i.e. starting the day before
+ * @param now Reference time; ranges are placed on its day
+ * @returns Start (timestamp) and duration in milliseconds, or undefined if the text is invalid,
+ *          the range is empty (e.g. "14:00-14:00") or it ends in the future
+ */
+export function parseTimeSpent(input: string, now: number = Date.now()): { start: number; duration: number } | undefined {
+    const range = /^(\d{1,2}):(\d{2})\s*[-–]\s*(\d{1,2}):(\d{2})$/.exec(input.trim());
+    if (!range) {
+        const duration = parseTime(input);
+        return duration ? { start: now - duration, duration } : undefined;
+    }
+
+    const [startHours, startMinutes, endHours, endMinutes] = range.slice(1).map(Number);
+    if (startHours > 23 || endHours > 23 || startMinutes > 59 || endMinutes > 59) {
+        return undefined;
+    }
+    if (startHours === endHours && startMinutes === endMinutes) {
+        return undefined;
+    }
+
+    const end = new Date(now);
+    end.setHours(endHours, endMinutes, 0, 0);
+    const start = new Date(now);
+    start.setHours(startHours, startMinutes, 0, 0);
+    if (start.getTime() > end.getTime()) {
+        start.setDate(start.getDate() - 1);
+    }
+
+    if (end.getTime() > now) {
+        return undefined;
+    }
+    return { start: start.getTime(), duration: end.getTime() - start.getTime() };
+}
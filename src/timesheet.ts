@@ -0,0 +1,497 @@
+import * as vscode from 'vscode';
+import { ClickUpTask, ClickUpTimeEntry } from './clickupService';
+import { formatDateTime, formatTime, parseDateTime } from './timeFormat';
+import { formatTaskReference } from './taskReference';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export type TimesheetFormat = 'markdown' | 'csv' | 'json';
+
+/**
+ * Time spent on one task within a timesheet (or one group of it)
+ */
+export interface TimesheetTaskTotal {
+    taskId: string | undefined; // Undefined for entries without a task
+    taskName: string;
+    listName: string;
+    spaceName: string;
+    duration: number; // Milliseconds logged within the range
+    estimate?: number; // The task's time_estimate (milliseconds)
+    timeTracked?: number; // All time tracked on the task, also outside the range (milliseconds)
+}
+
+/**
+ * A day, list or space with its total and the tasks that make it up
+ */
+export interface TimesheetGroup {
+    key: string;
+    label: string;
+    duration: number;
+    tasks: TimesheetTaskTotal[];
+}
+
+export interface TimesheetReport {
+    title: string;
+    start: number; // Unix timestamp (milliseconds)
+    end: number; // Unix timestamp (milliseconds), exclusive
+    total: number;
+    entries: ClickUpTimeEntry[];
+    days: TimesheetGroup[];
+    tasks: TimesheetTaskTotal[];
+    lists: TimesheetGroup[];
+    spaces: TimesheetGroup[];
+}
+
+export interface TimesheetRange {
+    label: string;
+    start: number;
+    end: number;
+}
+
+function startOfDay(timestamp: number): Date {
+    const date = new Date(timestamp);
+    date.setHours(0, 0, 0, 0);
+    return date;
+}
+
+function addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+}
+
+/**
+ * Format the local date of a timestamp, e.g. "2024-05-14"
+ */
+function formatDate(timestamp: number): string {
+    return formatDateTime(timestamp).slice(0, 10);
+}
+
+/**
+ * The predefined ranges offered by the timesheet command; weeks start on Monday
+ */
+export function getTimesheetRanges(now: number = Date.now()): TimesheetRange[] {
+    const today = startOfDay(now);
+    const monday = addDays(today, -((today.getDay() + 6) % 7));
+    const firstOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
+    return [
+        { label: 'Today', start: today.getTime(), end: addDays(today, 1).getTime() },
+        { label: 'Yesterday', start: addDays(today, -1).getTime(), end: today.getTime() },
+        { label: 'This Week', start: monday.getTime(), end: addDays(monday, 7).getTime() },
+        { label: 'Last Week', start: addDays(monday, -7).getTime(), end: monday.getTime() },
+        { label: 'This Month', start: firstOfMonth.getTime(), end: new Date(today.getFullYear(), today.getMonth() + 1, 1).getTime() },
+        { label: 'Last Month', start: new Date(today.getFullYear(), today.getMonth() - 1, 1).getTime(), end: firstOfMonth.getTime() }
+    ];
+}
+
+/**
+ * Ask for the range of a timesheet: one of getTimesheetRanges or a custom one
+ * @returns The range, or undefined if cancelled
+ */
+export async function promptForTimesheetRange(): Promise<TimesheetRange | undefined> {
+    const ranges = getTimesheetRanges();
+    const selected = await vscode.window.showQuickPick(
+        [
+            ...ranges.map(range => ({ label: range.label, description: formatRange(range.start, range.end), range })),
+            { label: 'Custom Range...', description: undefined, range: undefined }
+        ],
+        { placeHolder: 'Select the timesheet range' }
+    );
+    if (!selected || selected.range) {
+        return selected?.range;
+    }
+
+    const parseDate = (value: string) => parseDateTime(`${value.trim()} 00:00`);
+    const today = formatDate(Date.now());
+    const first = await vscode.window.showInputBox({
+        title: 'Custom Timesheet Range (1/2)',
+        prompt: 'First day (YYYY-MM-DD)',
+        value: today,
+        validateInput: value => parseDate(value) === undefined ? 'Enter a date like 2024-05-13' : undefined
+    });
+    if (first === undefined) {
+        return undefined;
+    }
+    const start = parseDate(first)!;
+
+    const last = await vscode.window.showInputBox({
+        title: 'Custom Timesheet Range (2/2)',
+        prompt: 'Last day (YYYY-MM-DD)',
+        value: today,
+        validateInput: value => {
+            const parsed = parseDate(value);
+            if (parsed === undefined) {
+                return 'Enter a date like 2024-05-17';
+            }
+            return parsed < start ? 'The last day can\'t be before the first day' : undefined;
+        }
+    });
+    if (last === undefined) {
+        return undefined;
+    }
+
+    const end = addDays(new Date(parseDate(last)!), 1).getTime();
+    return { label: formatRange(start, end), start, end };
+}
+
+/**
+ * Describe a range for titles, e.g. "2024-05-13 – 2024-05-19" (the end is exclusive)
+ */
+export function formatRange(start: number, end: number): string {
+    const first = formatDate(start);
+    const last = formatDate(Math.max(start, end - DAY));
+    return first === last ? first : `${first} – ${last}`;
+}
+
+/**
+ * Add up time entries per task within each group, largest first
+ */
+function groupEntries(
+    entries: ClickUpTimeEntry[],
+    getKey: (entry: ClickUpTimeEntry) => { key: string; label: string },
+    getTaskTotal: (entry: ClickUpTimeEntry) => TimesheetTaskTotal
+): TimesheetGroup[] {
+    const groups = new Map<string, TimesheetGroup>();
+    for (const entry of entries) {
+        const { key, label } = getKey(entry);
+        let group = groups.get(key);
+        if (!group) {
+            group = { key, label, duration: 0, tasks: [] };
+            groups.set(key, group);
+        }
+        group.duration += entry.duration;
+
+        const taskTotal = getTaskTotal(entry);
+        const existing = group.tasks.find(task => task.taskId === taskTotal.taskId);
+        if (existing) {
+            existing.duration += entry.duration;
+        } else {
+            group.tasks.push({ ...taskTotal, duration: entry.duration });
+        }
+    }
+
+    const result = Array.from(groups.values());
+    result.forEach(group => group.tasks.sort((a, b) => b.duration - a.duration));
+    return result;
+}
+
+/**
+ * Build a timesheet from time entries
+ * @param tasks The entries' tasks where they could be loaded, for estimates and missing names
+ */
+export function buildTimesheet(
+    title: string,
+    start: number,
+    end: number,
+    entries: ClickUpTimeEntry[],
+    tasks: Map<string, ClickUpTask>
+): TimesheetReport {
+    const getTaskTotal = (entry: ClickUpTimeEntry): TimesheetTaskTotal => {
+        const task = entry.taskId ? tasks.get(entry.taskId) : undefined;
+        return {
+            taskId: entry.taskId,
+            taskName: entry.taskName || task?.name || (entry.taskId ? formatTaskReference(entry.taskId) : 'No task'),
+            listName: entry.list?.name || task?.list?.name || '',
+            spaceName: entry.space?.name || task?.space?.name || '',
+            duration: 0,
+            estimate: task?.time_estimate || undefined,
+            timeTracked: task?.timeTracked || undefined
+        };
+    };
+
+    const days = groupEntries(entries, entry => {
+        const date = formatDate(entry.start);
+        const weekday = new Date(entry.start).toLocaleDateString(undefined, { weekday: 'short' });
+        return { key: date, label: `${weekday} ${date}` };
+    }, getTaskTotal).sort((a, b) => a.key.localeCompare(b.key));
+
+    const lists = groupEntries(entries, entry => {
+        const total = getTaskTotal(entry);
+        return {
+            key: entry.list?.id || total.listName,
+            label: total.listName ? (total.spaceName ? `${total.listName} (${total.spaceName})` : total.listName) : 'Unknown list'
+        };
+    }, getTaskTotal).sort((a, b) => b.duration - a.duration);
+
+    const spaces = groupEntries(entries, entry => {
+        const total = getTaskTotal(entry);
+        return { key: entry.space?.id || total.spaceName, label: total.spaceName || 'Unknown space' };
+    }, getTaskTotal).sort((a, b) => b.duration - a.duration);
+
+    // One group holding everything gives the per-task totals
+    const taskTotals = groupEntries(entries, () => ({ key: 'all', label: '' }), getTaskTotal)[0]?.tasks || [];
+
+    return {
+        title,
+        start,
+        end,
+        total: entries.reduce((sum, entry) => sum + entry.duration, 0),
+        entries,
+        days,
+        tasks: taskTotals,
+        lists,
+        spaces
+    };
+}
+
+function formatDuration(milliseconds: number | undefined): string {
+    return formatTime(milliseconds || 0) || '0m';
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function escapeCsv(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function formatEstimate(task: TimesheetTaskTotal): string {
+    if (!task.estimate) {
+        return '';
+    }
+    return `${formatDuration(task.timeTracked)} / ${formatDuration(task.estimate)}`;
+}
+
+export function formatTimesheetMarkdown(report: TimesheetReport): string {
+    const lines: string[] = [
+        `# Timesheet: ${report.title} (${formatRange(report.start, report.end)})`,
+        '',
+        `**Total: ${formatDuration(report.total)}**`,
+        ''
+    ];
+
+    const addGroups = (heading: string, groups: TimesheetGroup[]) => {
+        lines.push(`## ${heading}`, '');
+        for (const group of groups) {
+            lines.push(`### ${escapeMarkdown(group.label)}: ${formatDuration(group.duration)}`, '');
+            lines.push('| Task | Time |', '| --- | ---: |');
+            group.tasks.forEach(task => lines.push(`| ${escapeMarkdown(task.taskName)} | ${formatDuration(task.duration)} |`));
+            lines.push('');
+        }
+    };
+
+    addGroups('By Day', report.days);
+
+    lines.push('## By Task', '');
+    lines.push('| Task | List | Space | Time | Tracked / Estimate |', '| --- | --- | --- | ---: | ---: |');
+    report.tasks.forEach(task => lines.push(
+        `| ${escapeMarkdown(task.taskName)} | ${escapeMarkdown(task.listName)} | ${escapeMarkdown(task.spaceName)} | ${formatDuration(task.duration)} | ${formatEstimate(task)} |`
+    ));
+    lines.push('');
+
+    addGroups('By List', report.lists);
+    addGroups('By Space', report.spaces);
+    return lines.join('\n');
+}
+
+/**
+ * One row per time entry, so the file can be summed up in any spreadsheet
+ */
+export function formatTimesheetCsv(report: TimesheetReport): string {
+    const rows: Array<Array<string | number>> = [
+        ['Date', 'Start', 'End', 'Hours', 'Task ID', 'Task', 'List', 'Space', 'Description', 'Tags', 'Billable']
+    ];
+    const taskNames = new Map(report.tasks.map(task => [task.taskId, task]));
+    for (const entry of report.entries) {
+        const task = taskNames.get(entry.taskId);
+        rows.push([
+            formatDate(entry.start),
+            formatDateTime(entry.start).slice(11),
+            entry.end ? formatDateTime(entry.end).slice(11) : '',
+            (entry.duration / (60 * 60 * 1000)).toFixed(2),
+            entry.taskId || '',
+            task?.taskName || '',
+            task?.listName || '',
+            task?.spaceName || '',
+            entry.description,
+            entry.tags.join(', '),
+            entry.billable ? 'yes' : 'no'
+        ]);
+    }
+    return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+export function formatTimesheetJson(report: TimesheetReport): string {
+    return JSON.stringify({
+        ...report,
+        start: new Date(report.start).toISOString(),
+        end: new Date(report.end).toISOString()
+    }, null, 2);
+}
+
+/**
+ * Save the timesheet to a file chosen by the user
+ */
+async function exportTimesheet(report: TimesheetReport, format: TimesheetFormat): Promise<void> {
+    const extension = format === 'markdown' ? 'md' : format;
+    const content = format === 'markdown'
+        ? formatTimesheetMarkdown(report)
+        : format === 'csv' ? formatTimesheetCsv(report) : formatTimesheetJson(report);
+
+    const defaultName = `timesheet-${formatDate(report.start)}.${extension}`;
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder, defaultName) : undefined,
+        filters: { [format === 'markdown' ? 'Markdown' : format.toUpperCase()]: [extension] },
+        saveLabel: 'Export Timesheet'
+    });
+    if (!uri) {
+        return;
+    }
+
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+    const action = await vscode.window.showInformationMessage(`Timesheet exported to ${uri.fsPath}`, 'Open');
+    if (action === 'Open') {
+        await vscode.window.showTextDocument(uri);
+    }
+}
+
+/**
+ * Webview with a timesheet report and buttons to export it
+ * Only one panel is open at a time; showing another report replaces its content
+ */
+export class TimesheetPanel {
+    private static current: TimesheetPanel | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    static show(report: TimesheetReport, log: (message: string) => void): void {
+        if (TimesheetPanel.current) {
+            TimesheetPanel.current.setReport(report);
+            TimesheetPanel.current.panel.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel('clickupTimesheet', 'ClickUp Timesheet', vscode.ViewColumn.Active, {
+            enableScripts: true
+        });
+        TimesheetPanel.current = new TimesheetPanel(panel, report, log);
+    }
+
+    private constructor(
+        private panel: vscode.WebviewPanel,
+        private report: TimesheetReport,
+        private log: (message: string) => void
+    ) {
+        this.setReport(report);
+        this.disposables.push(
+            panel.onDidDispose(() => this.dispose()),
+            panel.webview.onDidReceiveMessage(async message => {
+                if (message?.command !== 'export') {
+                    return;
+                }
+                try {
+                    await exportTimesheet(this.report, message.format as TimesheetFormat);
+                } catch (error: any) {
+                    this.log(`Error exporting timesheet: ${error.message}`);
+                    vscode.window.showErrorMessage(`Failed to export timesheet: ${error.message}`);
+                }
+            })
+        );
+    }
+
+    private setReport(report: TimesheetReport): void {
+        this.report = report;
+        this.panel.title = `Timesheet: ${report.title}`;
+        this.panel.webview.html = this.getHtml(report);
+    }
+
+    private dispose(): void {
+        TimesheetPanel.current = undefined;
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private getHtml(report: TimesheetReport): string {
+        const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+
+        const taskRows = (tasks: TimesheetTaskTotal[]) => tasks
+            .map(task => `<tr><td>${escapeHtml(task.taskName)}</td><td class="time">${formatDuration(task.duration)}</td></tr>`)
+            .join('');
+        const groupSection = (id: string, groups: TimesheetGroup[], hidden: boolean) => `
+            <section id="${id}"${hidden ? ' hidden' : ''}>
+                ${groups.map(group => `
+                    <h3>${escapeHtml(group.label)} <span class="total">${formatDuration(group.duration)}</span></h3>
+                    <table><thead><tr><th>Task</th><th class="time">Time</th></tr></thead><tbody>${taskRows(group.tasks)}</tbody></table>
+                `).join('')}
+            </section>`;
+
+        const body = report.entries.length === 0
+            ? '<p>No time entries in this range.</p>'
+            : `
+            ${groupSection('day', report.days, false)}
+            <section id="task" hidden>
+                <table>
+                    <thead><tr><th>Task</th><th>List</th><th>Space</th><th class="time">Time</th><th class="time">Tracked / Estimate</th></tr></thead>
+                    <tbody>${report.tasks.map(task => `
+                        <tr${task.estimate && (task.timeTracked || 0) > task.estimate ? ' class="over"' : ''}>
+                            <td>${escapeHtml(task.taskName)}</td>
+                            <td>${escapeHtml(task.listName)}</td>
+                            <td>${escapeHtml(task.spaceName)}</td>
+                            <td class="time">${formatDuration(task.duration)}</td>
+                            <td class="time">${formatEstimate(task)}</td>
+                        </tr>`).join('')}
+                    </tbody>
+                </table>
+            </section>
+            ${groupSection('list', report.lists, true)}
+            ${groupSection('space', report.spaces, true)}`;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+        .toolbar { display: flex; gap: 8px; align-items: center; margin-bottom: 12px; flex-wrap: wrap; }
+        button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 10px; cursor: pointer; }
+        button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+        select { background: var(--vscode-dropdown-background); color: var(--vscode-dropdown-foreground); border: 1px solid var(--vscode-dropdown-border); padding: 3px; }
+        table { border-collapse: collapse; width: 100%; margin-bottom: 12px; }
+        th, td { text-align: left; padding: 3px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+        .time { text-align: right; white-space: nowrap; }
+        .total { color: var(--vscode-descriptionForeground); font-weight: normal; margin-left: 6px; }
+        .over td { color: var(--vscode-editorWarning-foreground); }
+    </style>
+</head>
+<body>
+    <h2>${escapeHtml(report.title)} <span class="total">${escapeHtml(formatRange(report.start, report.end))}</span></h2>
+    <div class="toolbar">
+        <strong>Total: ${formatDuration(report.total)}</strong>
+        <label>Group by
+            <select id="groupBy">
+                <option value="day">Day</option>
+                <option value="task">Task</option>
+                <option value="list">List</option>
+                <option value="space">Space</option>
+            </select>
+        </label>
+        <button data-format="markdown">Export Markdown</button>
+        <button data-format="csv">Export CSV</button>
+        <button data-format="json">Export JSON</button>
+    </div>
+    ${body}
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.getElementById('groupBy').addEventListener('change', event => {
+            document.querySelectorAll('section').forEach(section => { section.hidden = section.id !== event.target.value; });
+        });
+        document.querySelectorAll('button[data-format]').forEach(button => {
+            button.addEventListener('click', () => vscode.postMessage({ command: 'export', format: button.dataset.format }));
+        });
+    </script>
+</body>
+</html>`;
+    }
+}
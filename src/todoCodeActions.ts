@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+
+// TODO or FIXME, an optional "(owner)" and the comment text; the keyword must follow a comment marker
+const TODO_PATTERN = /(\/\/|\/\*|#|<!--|--|;|\*)\s*\b(TODO|FIXME)\b(\([^)]*\))?:?\s*(.*?)\s*(\*\/|-->)?\s*$/;
+// Lines that already reference a task are not offered again
+const TASK_REFERENCE_PATTERN = /\bCU-[0-9a-z]+\b/i;
+// Lines of code included above and below the comment in the task description
+const CONTEXT_LINES = 5;
+
+export interface TodoComment {
+    keyword: string; // TODO or FIXME
+    text: string; // Comment text after the keyword
+    // Character offset right after the keyword and its optional "(owner)", where the reference goes
+    insertAt: number;
+}
+
+/**
+ * Find a TODO/FIXME comment on a line of code
+ * @returns The comment, or undefined if the line has none or already references a task
+ */
+export function parseTodoComment(line: string): TodoComment | undefined {
+    if (TASK_REFERENCE_PATTERN.test(line)) {
+        return undefined;
+    }
+
+    const match = TODO_PATTERN.exec(line);
+    if (!match) {
+        return undefined;
+    }
+
+    const keywordStart = line.indexOf(match[2], match.index + match[1].length);
+    return {
+        keyword: match[2],
+        text: match[4],
+        insertAt: keywordStart + match[2].length + (match[3]?.length || 0)
+    };
+}
+
+/**
+ * Task description for a TODO: where it is and the code around it
+ */
+export function buildTodoDescription(document: vscode.TextDocument, line: number): string {
+    const firstLine = Math.max(0, line - CONTEXT_LINES);
+    const lastLine = Math.min(document.lineCount - 1, line + CONTEXT_LINES);
+    const code = [];
+    for (let i = firstLine; i <= lastLine; i++) {
+        code.push(document.lineAt(i).text);
+    }
+
+    const path = vscode.workspace.asRelativePath(document.uri);
+    return `From \`${path}:${line + 1}\`\n\n\`\`\`${document.languageId}\n${code.join('\n')}\n\`\`\``;
+}
+
+/**
+ * Offers "Create ClickUp task from TODO" on lines with a TODO/FIXME comment
+ */
+export class TodoCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+
+        for (let line = range.start.line; line <= range.end.line; line++) {
+            const todo = parseTodoComment(document.lineAt(line).text);
+            if (!todo) {
+                continue;
+            }
+
+            const action = new vscode.CodeAction(`Create ClickUp task from ${todo.keyword}`, vscode.CodeActionKind.QuickFix);
+            action.command = {
+                command: 'clickupTasks.createTaskFromTodo',
+                title: action.title,
+                arguments: [document.uri, line]
+            };
+            actions.push(action);
+        }
+
+        return actions;
+    }
+}
+
+/**
+ * Find a line again after the document may have been edited
+ * @param line Where the line was
+ * @param text What the line contained
+ * @returns The closest line with that exact text, or undefined if it's gone
+ */
+export function findLine(document: vscode.TextDocument, line: number, text: string): number | undefined {
+    for (let distance = 0; distance < document.lineCount; distance++) {
+        for (const candidate of [line - distance, line + distance]) {
+            if (candidate >= 0 && candidate < document.lineCount && document.lineAt(candidate).text === text) {
+                return candidate;
+            }
+        }
+    }
+    return undefined;
+}
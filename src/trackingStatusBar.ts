@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { ClickUpService, ClickUpTask } from './clickupService';
+import { ClickUpTasksProvider } from './clickupTasksProvider';
+import { formatTime } from './timeFormat';
+import { formatTaskReference } from './taskReference';
+
+// Longer names are cut off so the item doesn't crowd out the rest of the status bar
+const MAX_NAME_LENGTH = 30;
+
+/**
+ * Status bar item with the tracked task's name and live elapsed time
+ * Turns to the warning color once the task's total tracked time passes its estimate
+ */
+export class TrackingStatusBar implements vscode.Disposable {
+    private item: vscode.StatusBarItem;
+    private updateInterval: NodeJS.Timeout;
+
+    constructor(private clickUpService: ClickUpService, private tasksProvider: ClickUpTasksProvider) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+        this.item.name = 'ClickUp Time Tracking';
+        this.item.command = 'clickupTasks.trackedTaskActions';
+
+        this.update();
+        this.updateInterval = setInterval(() => this.update(), 1000);
+    }
+
+    /**
+     * The tracked task, if it's one of the tasks in the tree
+     */
+    getTrackedTask(): ClickUpTask | undefined {
+        const taskId = this.clickUpService.getTrackedTaskId();
+        return taskId ? this.tasksProvider.getTasks().find(task => task.id === taskId) : undefined;
+    }
+
+    update(): void {
+        const taskId = this.clickUpService.getTrackedTaskId();
+        if (!taskId) {
+            this.item.hide();
+            return;
+        }
+
+        const task = this.getTrackedTask();
+        const name = task?.name || formatTaskReference(taskId);
+        const shortName = name.length > MAX_NAME_LENGTH ? `${name.slice(0, MAX_NAME_LENGTH - 1)}…` : name;
+        const elapsed = this.clickUpService.getInternalTimerElapsed(taskId);
+        const total = (task?.timeTracked || 0) + elapsed;
+        const estimate = task?.time_estimate || 0;
+        const overEstimate = estimate > 0 && total > estimate;
+
+        this.item.text = `$(record) ${shortName} ${formatTime(elapsed, true) || '0s'}`;
+        const tooltip = [
+            name,
+            `Elapsed: ${formatTime(elapsed, true) || '0s'}`,
+            `Total: ${formatTime(total) || '0m'}${estimate ? ` of ${formatTime(estimate)} estimated` : ''}`
+        ];
+        if (overEstimate) {
+            tooltip.push('Over the time estimate');
+        }
+        this.item.tooltip = `${tooltip.join('\n')}\n\nClick for actions`;
+        this.item.backgroundColor = overEstimate ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+        this.item.show();
+    }
+
+    dispose(): void {
+        clearInterval(this.updateInterval);
+        this.item.dispose();
+    }
+}